@@ -10,6 +10,7 @@
 
 import { readFileSync, writeFileSync, existsSync, appendFileSync } from 'node:fs';
 import { join } from 'node:path';
+import { AuditLog, type AuditEntry } from '../src/agents/goal-audit.js';
 
 interface HeartbeatState {
   lastChecks: Record<string, number | null>;
@@ -27,6 +28,12 @@ interface CheckConfig {
 
 const STATE_FILE = 'heartbeat-state.json';
 
+// Shared with GoalLoop (same JSONL format and rotation)
+const auditLog = new AuditLog(join(process.cwd(), 'memory', 'autonomous-actions.log'), {
+  maxBytes: 10 * 1024 * 1024,
+  maxFiles: 5,
+});
+
 /**
  * Calculate priority for a check based on:
  * - How overdue it is
@@ -342,6 +349,7 @@ async function runHeartbeat(): Promise<string> {
   }
   
   // Execute the check
+  const startedAt = Date.now();
   const result = await executeCheck(check.name);
   
   // Update state
@@ -349,19 +357,21 @@ async function runHeartbeat(): Promise<string> {
   saveState(state);
   
   // Log execution
-  const logEntry = {
+  const logEntry: AuditEntry = {
     timestamp: now.toISOString(),
-    check: check.name,
+    source: 'heartbeat',
+    goalId: `heartbeat:${check.name}`,
+    type: 'monitor',
     priority: check.priority,
-    result: result.message,
+    trigger: 'time',
+    durationMs: Date.now() - startedAt,
+    outcome: result.success ? 'success' : 'failure',
+    message: result.message,
   };
   
   // Write to autonomous-actions.log
   try {
-    const { appendFileSync } = await import('node:fs');
-    const { join } = await import('node:path');
-    const logPath = join(process.cwd(), 'memory', 'autonomous-actions.log');
-    appendFileSync(logPath, JSON.stringify(logEntry) + '\n', 'utf-8');
+    await auditLog.append(logEntry);
   } catch (error) {
     // Silently fail if logging fails
   }
@@ -0,0 +1,93 @@
+/**
+ * Goal Approval - Human approval gate for sensitive goals
+ *
+ * Goals matched by the loop's approval policy (or flagged with
+ * `requiresApproval`) are held before each run until approve() or reject(),
+ * or until the request expires. The pending run keeps the event it was
+ * queued for, so an approved run sees the same payload.
+ */
+
+import type { GoalEvent } from './goal-events.js';
+import type { Goal, GoalPriority, GoalTrigger, GoalType } from './goal-loop.js';
+
+/**
+ * Which goals need human approval before each run
+ */
+export interface GoalApprovalPolicy {
+  types?: GoalType[]; // e.g. ['communicate']
+  priorities?: GoalPriority[]; // e.g. ['critical']
+  timeout?: number; // milliseconds before a pending run is dropped
+}
+
+/**
+ * What a pending run would do, for the approver
+ */
+export interface GoalApprovalPreview {
+  goalId: string;
+  description: string;
+  type: GoalType;
+  priority: GoalPriority;
+  trigger: GoalTrigger;
+  params?: Record<string, any>;
+  event?: { name: string; payload?: any };
+}
+
+export interface GoalApproval {
+  requestedAt: Date;
+  expiresAt?: Date;
+  approved?: boolean; // approved, waiting for a slot
+  preview: GoalApprovalPreview;
+  event?: GoalEvent; // the published event the run was queued for
+}
+
+/**
+ * Whether a goal's runs need human approval
+ *
+ * The goal's own `requiresApproval` overrides the policy.
+ */
+export function requiresApproval(goal: Goal, policy: GoalApprovalPolicy | undefined): boolean {
+  if (goal.requiresApproval !== undefined) return goal.requiresApproval;
+
+  return Boolean(
+    policy && (policy.types?.includes(goal.type) || policy.priorities?.includes(goal.priority))
+  );
+}
+
+/**
+ * Whether a goal has a run waiting for approve()/reject()
+ */
+export function isAwaitingApproval(goal: Goal): boolean {
+  return Boolean(goal.pendingApproval && !goal.pendingApproval.approved);
+}
+
+/**
+ * Build the pending approval for a goal's next run
+ */
+export function createApproval(
+  goal: Goal,
+  now: Date,
+  event: GoalEvent | undefined,
+  timeout: number | undefined
+): GoalApproval {
+  return {
+    requestedAt: now,
+    expiresAt: timeout ? new Date(now.getTime() + timeout) : undefined,
+    preview: {
+      goalId: goal.id,
+      description: goal.description,
+      type: goal.type,
+      priority: goal.priority,
+      trigger: goal.trigger,
+      params: goal.params,
+      event: event && { name: event.name, payload: event.payload },
+    },
+    event,
+  };
+}
+
+/**
+ * Whether an unanswered approval request has run out of time
+ */
+export function isApprovalExpired(approval: GoalApproval, now: number): boolean {
+  return !approval.approved && approval.expiresAt !== undefined && approval.expiresAt.getTime() <= now;
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for Goal Audit Log
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuditLog, type AuditEntry } from './goal-audit';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp: '2026-02-10T13:00:00.000Z',
+    source: 'goal-loop',
+    goalId: 'email-monitor',
+    type: 'monitor',
+    priority: 'high',
+    trigger: 'time',
+    durationMs: 120,
+    outcome: 'success',
+    message: 'Email checked',
+    ...overrides,
+  };
+}
+
+describe('AuditLog', () => {
+  let tempDir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'goal-audit-test-'));
+    logPath = path.join(tempDir, 'memory', 'autonomous-actions.log');
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should append one JSON object per line', async () => {
+    const log = new AuditLog(logPath);
+    await log.append(entry());
+    await log.append(entry({ goalId: 'git-check', outcome: 'failure', error: 'not a repo' }));
+
+    const lines = (await fs.readFile(logPath, 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toMatchObject({ goalId: 'git-check', error: 'not a repo' });
+  });
+
+  it('should filter by goal, outcome and time range', async () => {
+    const log = new AuditLog(logPath);
+    await log.append(entry({ timestamp: '2026-02-10T10:00:00.000Z' }));
+    await log.append(entry({ timestamp: '2026-02-10T11:00:00.000Z', outcome: 'timeout' }));
+    await log.append(entry({ timestamp: '2026-02-10T12:00:00.000Z', goalId: 'other' }));
+    await log.append(entry({ timestamp: '2026-02-10T13:00:00.000Z' }));
+
+    const runs = await log.read({
+      goalId: 'email-monitor',
+      outcome: 'success',
+      since: new Date('2026-02-10T10:30:00.000Z'),
+    });
+    expect(runs.map(r => r.timestamp)).toEqual(['2026-02-10T13:00:00.000Z']);
+
+    const failures = await log.read({ outcome: ['failure', 'timeout'] });
+    expect(failures).toHaveLength(1);
+
+    const latest = await log.read({ limit: 2 });
+    expect(latest.map(r => r.goalId)).toEqual(['other', 'email-monitor']);
+  });
+
+  it('should skip lines that are not audit entries', async () => {
+    await fs.mkdir(path.dirname(logPath), { recursive: true });
+    await fs.writeFile(logPath, '{"timestamp":"2026-02-10T09:00:00.000Z","check":"email"}\nnot json\n');
+
+    const log = new AuditLog(logPath);
+    await log.append(entry());
+
+    expect(await log.read()).toHaveLength(1);
+  });
+
+  it('should rotate by size and read across rotated files', async () => {
+    const log = new AuditLog(logPath, { maxBytes: 400, maxFiles: 2 });
+
+    for (let i = 0; i < 10; i++) {
+      await log.append(entry({ timestamp: `2026-02-10T13:00:0${i}.000Z`, message: `run ${i}` }));
+    }
+
+    const files = (await fs.readdir(path.dirname(logPath))).sort();
+    expect(files).toEqual([
+      'autonomous-actions.log',
+      'autonomous-actions.log.1',
+      'autonomous-actions.log.2',
+    ]);
+
+    // Oldest entries dropped with the oldest file
+    const messages = (await log.read()).map(r => r.message);
+    expect(messages.length).toBeLessThan(10);
+    expect(messages[messages.length - 1]).toBe('run 9');
+  });
+
+  it('should rotate when the day changes', async () => {
+    const log = new AuditLog(logPath, { rotateDaily: true });
+    await log.append(entry({ timestamp: '2026-02-10T23:59:00.000Z' }));
+    await log.append(entry({ timestamp: '2026-02-11T00:01:00.000Z' }));
+
+    const rotated = await fs.readFile(`${logPath}.1`, 'utf-8');
+    expect(rotated).toContain('2026-02-10T23:59:00.000Z');
+    expect(await log.read()).toHaveLength(2);
+  });
+});
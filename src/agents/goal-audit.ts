@@ -0,0 +1,184 @@
+/**
+ * Goal Audit - Structured JSONL audit log for autonomous actions
+ *
+ * One JSON object per line, shared by GoalLoop and the heartbeat executor
+ * (memory/autonomous-actions.log by convention). Files rotate by size or by day
+ * into numbered siblings (`.1` newest); the reader spans all of them.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// 'not-run': a due run held back, recorded with its reasons under debug logging
+export type AuditOutcome = 'success' | 'failure' | 'timeout' | 'cancelled' | 'not-run';
+
+export interface AuditEntry {
+  timestamp: string; // ISO timestamp
+  source: string; // 'goal-loop' | 'heartbeat' | ...
+  goalId: string;
+  type?: string;
+  priority?: string | number;
+  trigger?: string;
+  durationMs?: number;
+  outcome: AuditOutcome;
+  message?: string;
+  error?: string;
+}
+
+export interface AuditLogOptions {
+  maxBytes?: number; // rotate before a write would exceed this size
+  rotateDaily?: boolean; // rotate on the first write of a new UTC day
+  maxFiles?: number; // rotated files kept (default: 5)
+}
+
+export interface AuditQuery {
+  goalId?: string;
+  source?: string;
+  outcome?: AuditOutcome | AuditOutcome[];
+  since?: Date; // inclusive
+  until?: Date; // inclusive
+  limit?: number; // most recent N matches
+}
+
+const DEFAULT_MAX_FILES = 5;
+
+export class AuditLog {
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private activeDay?: string; // UTC date of the entries in the active file
+
+  constructor(
+    private readonly filePath: string,
+    private readonly options: AuditLogOptions = {}
+  ) {}
+
+  /**
+   * Append an entry (writes are serialized in call order)
+   */
+  append(entry: AuditEntry): Promise<void> {
+    const write = this.pendingWrite.then(() => this.write(entry));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Wait for queued writes to finish
+   */
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  /**
+   * Read entries (oldest first) across the active and rotated files
+   *
+   * Lines that are not audit entries (malformed, or written before the
+   * structured format) are skipped.
+   */
+  async read(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.flush();
+
+    const outcomes = query.outcome === undefined
+      ? undefined
+      : Array.isArray(query.outcome) ? query.outcome : [query.outcome];
+    const since = query.since?.getTime() ?? -Infinity;
+    const until = query.until?.getTime() ?? Infinity;
+    const entries: AuditEntry[] = [];
+
+    for (const file of this.getFiles().reverse()) {
+      for (const entry of await readEntries(file)) {
+        const time = Date.parse(entry.timestamp);
+
+        if (query.goalId !== undefined && entry.goalId !== query.goalId) continue;
+        if (query.source !== undefined && entry.source !== query.source) continue;
+        if (outcomes && !outcomes.includes(entry.outcome)) continue;
+        if (time < since || time > until) continue;
+
+        entries.push(entry);
+      }
+    }
+
+    entries.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    return query.limit !== undefined ? entries.slice(-query.limit) : entries;
+  }
+
+  private async write(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify(entry) + '\n';
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    if (await this.shouldRotate(entry, Buffer.byteLength(line))) {
+      await this.rotate();
+    }
+
+    await fs.appendFile(this.filePath, line, 'utf-8');
+    this.activeDay = entry.timestamp.slice(0, 10);
+  }
+
+  private async shouldRotate(entry: AuditEntry, lineBytes: number): Promise<boolean> {
+    const stat = await fs.stat(this.filePath).catch(() => undefined);
+    if (!stat || stat.size === 0) return false;
+
+    if (this.options.maxBytes && stat.size + lineBytes > this.options.maxBytes) {
+      return true;
+    }
+
+    if (this.options.rotateDaily) {
+      const activeDay = this.activeDay ?? stat.mtime.toISOString().slice(0, 10);
+      return entry.timestamp.slice(0, 10) !== activeDay;
+    }
+
+    return false;
+  }
+
+  /**
+   * Shift `file.N` to `file.N+1` (dropping the oldest), then `file` to `file.1`
+   */
+  private async rotate(): Promise<void> {
+    const maxFiles = this.options.maxFiles ?? DEFAULT_MAX_FILES;
+
+    await fs.rm(`${this.filePath}.${maxFiles}`, { force: true });
+    for (let n = maxFiles - 1; n >= 1; n--) {
+      await fs.rename(`${this.filePath}.${n}`, `${this.filePath}.${n + 1}`).catch(() => undefined);
+    }
+    await fs.rename(this.filePath, `${this.filePath}.1`);
+  }
+
+  /**
+   * Active file first, then rotated files newest to oldest
+   */
+  private getFiles(): string[] {
+    const maxFiles = this.options.maxFiles ?? DEFAULT_MAX_FILES;
+    const files = [this.filePath];
+
+    for (let n = 1; n <= maxFiles; n++) {
+      files.push(`${this.filePath}.${n}`);
+    }
+
+    return files;
+  }
+}
+
+async function readEntries(file: string): Promise<AuditEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    try {
+      const entry = JSON.parse(line);
+      if (entry && typeof entry.goalId === 'string' && typeof entry.outcome === 'string') {
+        entries.push(entry);
+      }
+    } catch {
+      // Skip malformed lines
+    }
+  }
+
+  return entries;
+}
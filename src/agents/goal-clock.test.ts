@@ -0,0 +1,60 @@
+/**
+ * Tests for Goal Clock
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VirtualClock } from './goal-clock';
+
+describe('VirtualClock', () => {
+  it('should start at the given time and only move when advanced', async () => {
+    const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+    expect(clock.now()).toBe(Date.parse('2026-02-10T00:00:00.000Z'));
+
+    await clock.advance(60 * 60 * 1000);
+    expect(new Date(clock.now()).toISOString()).toBe('2026-02-10T01:00:00.000Z');
+  });
+
+  it('should fire timers in time order at their scheduled time', async () => {
+    const clock = new VirtualClock(0);
+    const fired: Array<[string, number]> = [];
+
+    clock.setTimeout(() => fired.push(['b', clock.now()]), 200);
+    clock.setTimeout(() => fired.push(['a', clock.now()]), 100);
+    clock.setTimeout(() => fired.push(['c', clock.now()]), 500);
+
+    await clock.advance(300);
+
+    expect(fired).toEqual([['a', 100], ['b', 200]]);
+    expect(clock.now()).toBe(300);
+    expect(clock.getPendingTimers()).toBe(1);
+  });
+
+  it('should not fire cleared timers', async () => {
+    const clock = new VirtualClock(0);
+    let fired = false;
+
+    const timer = clock.setTimeout(() => { fired = true; }, 100);
+    clock.clearTimeout(timer);
+    await clock.advance(1000);
+
+    expect(fired).toBe(false);
+  });
+
+  it('should fire timers scheduled by async callbacks within the same advance', async () => {
+    const clock = new VirtualClock(0);
+    const ticks: number[] = [];
+
+    const loop = async () => {
+      for (let i = 0; i < 3; i++) {
+        await new Promise<void>(resolve => clock.setTimeout(resolve, 1000));
+        ticks.push(clock.now());
+      }
+    };
+    const done = loop();
+
+    await clock.advance(5000);
+    await done;
+
+    expect(ticks).toEqual([1000, 2000, 3000]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Goal Clock - Time source abstraction for GoalLoop
+ *
+ * GoalLoop reads time and schedules timers only through a Clock, so tests
+ * and dry runs can swap in a VirtualClock and advance hours instantly.
+ */
+
+export type ClockTimer = unknown;
+
+export interface Clock {
+  now(): number; // epoch milliseconds
+  setTimeout(callback: () => void, ms: number): ClockTimer;
+  clearTimeout(timer: ClockTimer | undefined): void;
+}
+
+/**
+ * Real wall-clock time (default)
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout> | undefined),
+};
+
+interface VirtualTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * Manually advanced clock for tests and simulations
+ *
+ * Timers fire in time order while advancing; pending promise callbacks are
+ * flushed after each one so async code driven by the timers keeps pace.
+ */
+export class VirtualClock implements Clock {
+  private current: number;
+  private timers: VirtualTimer[] = [];
+  private nextTimerId = 1;
+
+  constructor(start: Date | number = Date.now()) {
+    this.current = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, ms: number): ClockTimer {
+    const timer: VirtualTimer = {
+      id: this.nextTimerId++,
+      at: this.current + Math.max(0, ms),
+      callback,
+    };
+    this.timers.push(timer);
+    return timer.id;
+  }
+
+  clearTimeout(timer: ClockTimer | undefined): void {
+    this.timers = this.timers.filter(t => t.id !== timer);
+  }
+
+  /**
+   * Advance time, firing every timer due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    await this.advanceTo(this.current + ms);
+  }
+
+  /**
+   * Advance to an absolute time
+   */
+  async advanceTo(target: Date | number): Promise<void> {
+    const targetMs = typeof target === 'number' ? target : target.getTime();
+    await flushPromises();
+
+    for (;;) {
+      const due = this.timers
+        .filter(t => t.at <= targetMs)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!due) break;
+
+      this.timers = this.timers.filter(t => t !== due);
+      this.current = Math.max(this.current, due.at);
+      due.callback();
+      await flushPromises();
+    }
+
+    this.current = Math.max(this.current, targetMs);
+    await flushPromises();
+  }
+
+  /**
+   * Number of timers waiting to fire
+   */
+  getPendingTimers(): number {
+    return this.timers.length;
+  }
+}
+
+/**
+ * Let queued promise callbacks run before continuing
+ */
+function flushPromises(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
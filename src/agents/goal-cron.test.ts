@@ -0,0 +1,80 @@
+/**
+ * Tests for Goal Cron scheduling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCron, nextCronOccurrence, isValidTimezone } from './goal-cron';
+
+describe('parseCron', () => {
+  it('should parse lists, ranges and steps', () => {
+    const cron = parseCron('*/15 9-17 1,15 * mon-fri');
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should expand macros and treat 7 as Sunday', () => {
+    expect([...parseCron('@daily').hours]).toEqual([0]);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('* * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid cron field');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron step');
+    expect(() => parseCron('0 10-5 * * *')).toThrow('Invalid cron range');
+  });
+});
+
+describe('nextCronOccurrence', () => {
+  it('should find the next daily occurrence in UTC', () => {
+    const after = new Date('2026-02-10T13:45:00.000Z');
+
+    expect(nextCronOccurrence('0 3 * * *', after, 'UTC').toISOString())
+      .toBe('2026-02-11T03:00:00.000Z');
+    expect(nextCronOccurrence('50 13 * * *', after, 'UTC').toISOString())
+      .toBe('2026-02-10T13:50:00.000Z');
+  });
+
+  it('should be strictly after the given time', () => {
+    const after = new Date('2026-02-10T03:00:00.000Z');
+    expect(nextCronOccurrence('0 3 * * *', after, 'UTC').toISOString())
+      .toBe('2026-02-11T03:00:00.000Z');
+  });
+
+  it('should honor the timezone', () => {
+    // 3 AM in Singapore (UTC+8) is 19:00 UTC the previous day
+    const after = new Date('2026-02-10T00:00:00.000Z');
+    expect(nextCronOccurrence('0 3 * * *', after, 'Asia/Singapore').toISOString())
+      .toBe('2026-02-10T19:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2026-02-10 is a Tuesday: next is Friday the 13th or the 15th, whichever first
+    const after = new Date('2026-02-10T12:00:00.000Z');
+    expect(nextCronOccurrence('0 0 15 * fri', after, 'UTC').toISOString())
+      .toBe('2026-02-13T00:00:00.000Z');
+  });
+
+  it('should skip wall times that fall in a DST gap', () => {
+    // 2026-03-08 02:30 does not exist in New York (clocks jump 2:00 -> 3:00)
+    const after = new Date('2026-03-07T12:00:00.000Z');
+    const next = nextCronOccurrence('30 2 * * *', after, 'America/New_York');
+    expect(next.toISOString()).toBe('2026-03-09T06:30:00.000Z');
+  });
+
+  it('should find rare leap-day occurrences', () => {
+    const after = new Date('2026-03-01T00:00:00.000Z');
+    expect(nextCronOccurrence('0 0 29 2 *', after, 'UTC').toISOString())
+      .toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should reject unknown timezones', () => {
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    expect(() => nextCronOccurrence('0 3 * * *', new Date(), 'Mars/Olympus_Mons'))
+      .toThrow('Invalid timezone');
+  });
+});
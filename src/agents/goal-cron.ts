@@ -0,0 +1,317 @@
+/**
+ * Goal Cron - Cron expression parsing and calendar scheduling
+ *
+ * Supports standard five-field expressions (minute hour day-of-month month
+ * day-of-week) with lists, ranges, steps, month/day names and the common
+ * `@daily`-style macros. Occurrences are computed in an optional IANA
+ * timezone using the built-in Intl API, so no tz database dependency.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Search horizon: covers leap-day expressions like "0 0 29 2 *"
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Parse a cron expression
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const expanded = MACROS[source.toLowerCase()] ?? source;
+  const fields = expanded.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression (expected 5 fields): ${expression}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, expression, DAY_NAMES, 0);
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes: parseField(minute, 0, 59, expression),
+    hours: parseField(hour, 0, 23, expression),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, expression),
+    months: parseField(month, 1, 12, expression, MONTH_NAMES, 1),
+    daysOfWeek,
+    domRestricted: dayOfMonth !== '*',
+    dowRestricted: dayOfWeek !== '*',
+  };
+}
+
+/**
+ * Compute the first occurrence strictly after `after`
+ */
+export function nextCronOccurrence(
+  expression: string | CronExpression,
+  after: Date,
+  timezone?: string
+): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  if (timezone) {
+    assertValidTimezone(timezone);
+  }
+
+  // Walk wall-clock time in the target zone, starting at the next whole minute
+  const start = toWallTime(after, timezone);
+  const cursor = new Date(Date.UTC(start.year, start.month - 1, start.day, start.hour, start.minute + 1));
+  const limit = Date.UTC(start.year + MAX_SEARCH_YEARS, 0, 1);
+
+  while (cursor.getTime() < limit) {
+    const month = cursor.getUTCMonth() + 1;
+    if (!cron.months.has(month)) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, cursor.getUTCDate(), cursor.getUTCDay())) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(cursor.getUTCMinutes())) {
+      cursor.setUTCMinutes(cursor.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const wall: WallTime = {
+      year: cursor.getUTCFullYear(),
+      month,
+      day: cursor.getUTCDate(),
+      hour: cursor.getUTCHours(),
+      minute: cursor.getUTCMinutes(),
+    };
+
+    const instant = fromWallTime(wall, timezone);
+
+    // Wall times inside a DST gap do not exist; skip them
+    if (instant && instant.getTime() > after.getTime()) {
+      return instant;
+    }
+
+    cursor.setUTCMinutes(cursor.getUTCMinutes() + 1, 0, 0);
+  }
+
+  throw new Error(`Cron expression never fires: ${cron.source}`);
+}
+
+/**
+ * Check whether a timezone name is supported by the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a single cron field into the set of allowed values
+ */
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  expression: string,
+  names?: string[],
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number => {
+    const nameIndex = names?.indexOf(token.toLowerCase()) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + nameOffset : Number(token);
+
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid cron field "${field}" in expression: ${expression}`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepToken] = part.split('/');
+    const step = stepToken === undefined ? 1 : Number(stepToken);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}" in expression: ${expression}`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+    } else {
+      start = toNumber(range);
+      // "5/15" means "from 5 to the end of the range, every 15"
+      end = stepToken === undefined ? start : max;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid cron range "${range}" in expression: ${expression}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Day matching follows cron semantics: when both day-of-month and
+ * day-of-week are restricted, either one matching is enough.
+ */
+function matchesDay(cron: CronExpression, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = cron.daysOfMonth.has(dayOfMonth);
+  const dowMatch = cron.daysOfWeek.has(dayOfWeek);
+
+  if (cron.domRestricted && cron.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Wall-clock fields of an instant, in a timezone or local time
+ */
+function toWallTime(date: Date, timezone?: string): WallTime {
+  if (!timezone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+    };
+  }
+
+  const parts = getFormatter(timezone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour') % 24,
+    minute: get('minute'),
+  };
+}
+
+/**
+ * Instant for a wall-clock time, or undefined if it does not exist
+ */
+function fromWallTime(wall: WallTime, timezone?: string): Date | undefined {
+  let instant: Date;
+
+  if (!timezone) {
+    instant = new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  } else {
+    const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+
+    // Offset at the guess, then re-check at the corrected instant (DST edges)
+    let offset = getOffset(new Date(asUtc), timezone);
+    instant = new Date(asUtc - offset);
+    const corrected = getOffset(instant, timezone);
+    if (corrected !== offset) {
+      offset = corrected;
+      instant = new Date(asUtc - offset);
+    }
+  }
+
+  const actual = toWallTime(instant, timezone);
+  const exists = actual.year === wall.year &&
+    actual.month === wall.month &&
+    actual.day === wall.day &&
+    actual.hour === wall.hour &&
+    actual.minute === wall.minute;
+
+  return exists ? instant : undefined;
+}
+
+/**
+ * Timezone offset (wall time minus UTC) in milliseconds
+ */
+function getOffset(date: Date, timezone: string): number {
+  const wall = toWallTime(date, timezone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const utcMinute = Math.floor(date.getTime() / 60000) * 60000;
+  return wallAsUtc - utcMinute;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function assertValidTimezone(timezone: string): void {
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone: ${timezone}`);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Tests for Goal Definitions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs';
+import {
+  findRemovedGoals,
+  mergeReloadedGoal,
+  parseDuration,
+  parseGoalFile,
+  toGoalDefinitions,
+  watchGoalFile,
+} from './goal-definitions';
+import type { Goal } from './goal-loop';
+
+const handlers = {
+  hasAction: (name: string) => ['check-email', 'reconcile'].includes(name),
+  hasCondition: (name: string) => name === 'inbox-urgent',
+};
+
+const now = new Date('2026-02-10T00:00:00.000Z');
+
+describe('Goal Definitions', () => {
+  it('should parse durations with units', () => {
+    expect(parseDuration(5000)).toBe(5000);
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('30s')).toBe(30000);
+    expect(parseDuration('1.5h')).toBe(90 * 60 * 1000);
+    expect(parseDuration('soon')).toBeUndefined();
+    expect(parseDuration(-1)).toBeUndefined();
+  });
+
+  it('should convert YAML entries to goal definitions', async () => {
+    const entries = await parseGoalFile(`
+goals:
+  - id: email-monitor
+    description: Monitor email for urgent messages
+    priority: high
+    trigger: time
+    action: check-email
+    params: { folder: INBOX }
+    schedule: { interval: 30m, startDelay: 1m }
+  - id: urgent-reply
+    description: Reply when urgent mail arrives
+    type: communicate
+    trigger: condition
+    action: check-email
+    condition: inbox-urgent
+    conditionMode: rising-edge
+    debounce: 10s
+`, 'goals.yaml');
+
+    const { goals, errors } = toGoalDefinitions(entries, handlers, now);
+
+    expect(errors).toEqual([]);
+    expect(goals[0].definition).toMatchObject({
+      id: 'email-monitor',
+      type: 'monitor',
+      priority: 'high',
+      actionName: 'check-email',
+      params: { folder: 'INBOX' },
+      schedule: { interval: 30 * 60 * 1000, nextRun: new Date('2026-02-10T00:01:00.000Z') },
+    });
+    expect(goals[1].definition).toMatchObject({
+      conditionName: 'inbox-urgent',
+      conditionMode: 'rising-edge',
+      debounce: 10000,
+    });
+  });
+
+  it('should report errors per entry and keep the valid ones', async () => {
+    const entries = await parseGoalFile(JSON.stringify([
+      { id: 'ok', description: 'Fine', trigger: 'event', events: ['kanban:updated'], action: 'reconcile' },
+      { id: 'typo', description: 'Typo', trigger: 'time', action: 'reconcile', schedule: { intreval: 1000 } },
+      { id: 'unknown', description: 'Missing handler', trigger: 'completion', dependsOn: ['ok'], action: 'deploy' },
+      { id: 'ok', description: 'Duplicate', trigger: 'event', events: ['x'], action: 'reconcile' },
+      'not an object',
+    ]), 'goals.json');
+
+    const { goals, errors } = toGoalDefinitions(entries, handlers, now);
+
+    expect(goals.map(goal => goal.definition.id)).toEqual(['ok']);
+    expect(errors).toEqual([
+      {
+        index: 1,
+        id: 'typo',
+        errors: ['Unknown schedule field: intreval', '"schedule" requires an interval or a cron expression'],
+      },
+      { index: 2, id: 'unknown', errors: ['Action not registered: deploy'] },
+      { index: 3, id: 'ok', errors: ['Duplicate goal id: ok'] },
+      { index: 4, id: undefined, errors: ['Entry must be an object'] },
+    ]);
+  });
+
+  it('should convert deadlines and escalation settings', async () => {
+    const entries = await parseGoalFile(`
+- id: weekly-report
+  description: Send the weekly report
+  trigger: time
+  action: reconcile
+  schedule: { cron: '0 9 * * 1' }
+  deadline: { at: '2026-02-16T12:00:00.000Z', every: 7d }
+  escalation:
+    steps: [{ before: 2h, priority: high }]
+    breachWindow: 30m
+    fallbackGoals: [email-monitor]
+- id: bad-deadline
+  description: Invalid deadline
+  trigger: event
+  events: [x]
+  action: reconcile
+  deadline: { at: next monday }
+  escalation: { steps: [{ before: 1h, priority: urgent }] }
+`, 'goals.yaml');
+
+    const { goals, errors } = toGoalDefinitions(entries, handlers, now);
+
+    expect(goals[0].definition).toMatchObject({
+      deadline: { at: new Date('2026-02-16T12:00:00.000Z'), every: 7 * 24 * 60 * 60 * 1000 },
+      escalation: {
+        steps: [{ before: 2 * 60 * 60 * 1000, priority: 'high' }],
+        breachWindow: 30 * 60 * 1000,
+        fallbackGoals: ['email-monitor'],
+      },
+    });
+    expect(errors).toEqual([{
+      index: 1,
+      id: 'bad-deadline',
+      errors: [
+        '"deadline.at" must be an ISO timestamp',
+        '"escalation.steps" must be a list of { before: <duration>, priority }',
+      ],
+    }]);
+  });
+
+  it('should reject files that are not a goal list', async () => {
+    await expect(parseGoalFile('', 'goals.yaml')).resolves.toEqual([]);
+    await expect(parseGoalFile('goals: 3', 'goals.yaml')).rejects.toThrow('must be a list of goals');
+    await expect(parseGoalFile('{ "goals": [', 'goals.json')).rejects.toThrow();
+  });
+
+  it('should keep run state across reloads unless the timing changed', () => {
+    const action = async () => ({ success: true });
+    const previous: Goal = {
+      id: 'email-monitor',
+      type: 'monitor',
+      description: 'Monitor email',
+      priority: 'normal',
+      trigger: 'time',
+      action,
+      createdAt: now,
+      enabled: false,
+      retries: 2,
+      schedule: { nextRun: new Date('2026-02-10T00:30:00.000Z'), interval: 30 * 60 * 1000, runsCompleted: 4 },
+      definitionFile: 'goals.yaml',
+    };
+    const reloaded = {
+      ...previous,
+      description: 'Monitor inbox',
+      schedule: { nextRun: now, interval: 30 * 60 * 1000 },
+    };
+
+    expect(mergeReloadedGoal(previous, reloaded)).toMatchObject({
+      description: 'Monitor inbox',
+      enabled: false,
+      retries: 2,
+      schedule: { nextRun: previous.schedule!.nextRun, runsCompleted: 4 },
+    });
+    expect(mergeReloadedGoal(previous, { ...reloaded, schedule: { nextRun: now, interval: 60 * 60 * 1000 } }).schedule)
+      .toMatchObject({ nextRun: now, runsCompleted: 4 });
+
+    const parsed = { goals: [], errors: [{ index: 0, id: 'kept', errors: ['"trigger" is required'] }] };
+    const goals = [previous, { ...previous, id: 'kept' }, { ...previous, id: 'manual', definitionFile: undefined }];
+    expect(findRemovedGoals(goals, 'goals.yaml', parsed)).toEqual(['email-monitor']);
+  });
+
+  it('should close the watcher and report watch errors', () => {
+    const watcher = Object.assign(new EventEmitter(), { close: vi.fn() });
+    const watch = vi.spyOn(fs, 'watch').mockReturnValue(watcher as unknown as fs.FSWatcher);
+    const errors: string[] = [];
+
+    watchGoalFile('/etc/openclaw/goals.yaml', () => {}, error => errors.push(error.message));
+    watcher.emit('error', new Error('EPERM: operation not permitted, watch'));
+
+    expect(watch).toHaveBeenCalledWith('/etc/openclaw', expect.any(Function));
+    expect(watcher.close).toHaveBeenCalled();
+    expect(errors).toEqual(['EPERM: operation not permitted, watch']);
+    watch.mockRestore();
+  });
+});
@@ -0,0 +1,694 @@
+/**
+ * Goal Definitions - Declarative goals loaded from YAML or JSON
+ *
+ * A goals file lists entries that name registered action and condition
+ * handlers instead of holding closures, so goals can be added and tuned
+ * without writing TypeScript. Each entry is validated on its own: a bad
+ * entry is reported and skipped, the rest still load.
+ *
+ * ```yaml
+ * goals:
+ *   - id: email-monitor
+ *     description: Monitor email for urgent messages
+ *     type: monitor
+ *     priority: high
+ *     trigger: time
+ *     action: check-email
+ *     params: { folder: INBOX }
+ *     schedule: { interval: 30m, startDelay: 1m }
+ * ```
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { nextCronOccurrence } from './goal-cron.js';
+import type { GoalDependency } from './goal-dependencies.js';
+import type {
+  Goal,
+  GoalConditionMode,
+  GoalDefinition,
+  GoalPriority,
+  GoalRetryPolicy,
+  GoalTrigger,
+  GoalType,
+} from './goal-loop.js';
+import type { GoalMisfirePolicy } from './goal-misfire.js';
+
+/**
+ * A goals file entry as written (durations in milliseconds or '30s', '5m', '2h', '1d')
+ */
+export interface GoalFileEntry {
+  id: string;
+  description: string;
+  trigger: GoalTrigger;
+  action: string; // registered action handler
+  condition?: string; // registered condition handler
+  params?: Record<string, any>;
+  type?: GoalType; // default: 'monitor'
+  priority?: GoalPriority; // default: 'normal'
+  enabled?: boolean;
+  schedule?: {
+    interval?: number | string;
+    cron?: string;
+    timezone?: string;
+    startDelay?: number | string;
+    maxRuns?: number;
+    misfirePolicy?: GoalMisfirePolicy;
+    misfireGraceTime?: number | string;
+    maxCatchUpRuns?: number;
+    adaptive?: { maxInterval: number | string; factor?: number };
+  };
+  events?: Array<string | { event: string; filter?: Record<string, any> }>;
+  dependsOn?: Array<string | GoalDependency>;
+  pollInterval?: number | string;
+  conditionMode?: GoalConditionMode;
+  debounce?: number | string;
+  cooldown?: number | string;
+  timeout?: number | string;
+  maxRetries?: number;
+  retryPolicy?: Partial<Record<keyof GoalRetryPolicy, number | string>> | false;
+  concurrencyKey?: string;
+  resources?: string[];
+  requiresApproval?: boolean;
+  deadline?: {
+    at: string; // ISO timestamp
+    every?: number | string;
+  };
+  escalation?: {
+    steps?: Array<{ before: number | string; priority: GoalPriority }>;
+    breachWindow?: number | string;
+    fallbackGoals?: string[];
+  };
+}
+
+/**
+ * Validation errors of one entry
+ */
+export interface GoalFileEntryError {
+  index: number; // position in the file
+  id?: string;
+  errors: string[];
+}
+
+export interface GoalFileGoal {
+  index: number; // position in the file
+  definition: GoalDefinition & { id: string };
+  enabled?: boolean; // set when the entry states it
+  signature: string; // changes whenever the entry is edited
+}
+
+export interface GoalFileParseResult {
+  goals: GoalFileGoal[];
+  errors: GoalFileEntryError[];
+}
+
+/**
+ * Changes applied by GoalLoop.reloadGoalsFile()
+ */
+export interface GoalFileReloadResult {
+  path: string;
+  added: string[];
+  updated: string[];
+  removed: string[];
+  errors: GoalFileEntryError[]; // invalid entries (their goals keep the last valid version)
+  error?: string; // file unreadable or malformed; nothing was changed
+}
+
+/**
+ * Registered handler names an entry may reference
+ */
+export interface GoalHandlerLookup {
+  hasAction(name: string): boolean;
+  hasCondition(name: string): boolean;
+}
+
+const GOAL_TYPES: GoalType[] = ['learn', 'monitor', 'optimize', 'research', 'communicate'];
+const GOAL_PRIORITIES: GoalPriority[] = ['critical', 'high', 'normal', 'low'];
+const GOAL_TRIGGERS: GoalTrigger[] = ['time', 'event', 'condition', 'completion'];
+const CONDITION_MODES: GoalConditionMode[] = ['level', 'rising-edge'];
+const MISFIRE_POLICIES: GoalMisfirePolicy[] = ['coalesce', 'run-all', 'skip'];
+const DEPENDENCY_OUTCOMES = ['success', 'failure', 'any'];
+
+const ENTRY_FIELDS = new Set([
+  'id', 'description', 'trigger', 'action', 'condition', 'params', 'type', 'priority',
+  'enabled', 'schedule', 'events', 'dependsOn', 'pollInterval', 'conditionMode',
+  'debounce', 'cooldown', 'timeout', 'maxRetries', 'retryPolicy', 'concurrencyKey',
+  'resources', 'requiresApproval', 'deadline', 'escalation',
+]);
+const SCHEDULE_FIELDS = new Set([
+  'interval', 'cron', 'timezone', 'startDelay', 'maxRuns', 'misfirePolicy', 'misfireGraceTime', 'maxCatchUpRuns',
+  'adaptive',
+]);
+const ADAPTIVE_FIELDS = new Set(['maxInterval', 'factor']);
+const RETRY_POLICY_FIELDS = new Set(['initialDelay', 'multiplier', 'maxDelay', 'jitter']);
+const DEADLINE_FIELDS = new Set(['at', 'every']);
+const ESCALATION_FIELDS = new Set(['steps', 'breachWindow', 'fallbackGoals']);
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Editors often write a file in several steps; wait for them to settle
+const WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Parse a duration: milliseconds, or a number with a unit ('500ms', '30s', '5m', '2h', '1d')
+ */
+export function parseDuration(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?\s*$/.exec(value);
+  if (!match) return undefined;
+
+  return Math.round(Number(match[1]) * DURATION_UNITS[match[2] ?? 'ms']);
+}
+
+/**
+ * Parse a goals file (YAML for .yaml/.yml, JSON otherwise)
+ *
+ * Accepts a top-level list of entries or `{ goals: [...] }`. Throws on
+ * syntax errors; entries are not validated here. The `yaml` package is
+ * only loaded for YAML files, so JSON-only setups do not need it.
+ */
+export async function parseGoalFile(content: string, filePath: string): Promise<unknown[]> {
+  const ext = path.extname(filePath).toLowerCase();
+  const data = ext === '.yaml' || ext === '.yml'
+    ? (await import('yaml')).parse(content)
+    : JSON.parse(content);
+
+  if (data === null || data === undefined) return []; // empty file
+  if (Array.isArray(data)) return data;
+  if (typeof data === 'object' && Array.isArray(data.goals)) return data.goals;
+  if (typeof data === 'object' && data.goals === undefined) return [];
+
+  throw new Error('Goals file must be a list of goals or an object with a "goals" list');
+}
+
+/**
+ * Validate entries and convert them to goal definitions
+ *
+ * Time goals are scheduled relative to `now`. Entries reusing an earlier
+ * entry's id are reported as errors.
+ */
+export function toGoalDefinitions(
+  entries: unknown[],
+  handlers: GoalHandlerLookup,
+  now: Date
+): GoalFileParseResult {
+  const goals: GoalFileGoal[] = [];
+  const errors: GoalFileEntryError[] = [];
+  const seen = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const id = isObject(entry) && typeof entry.id === 'string' ? entry.id : undefined;
+    const entryErrors = validateGoalEntry(entry, handlers, now);
+
+    if (id && seen.has(id)) {
+      entryErrors.push(`Duplicate goal id: ${id}`);
+    }
+
+    if (entryErrors.length > 0) {
+      errors.push({ index, id, errors: entryErrors });
+      return;
+    }
+
+    seen.add(id!);
+    goals.push(toGoalFileGoal(entry as GoalFileEntry, index, now));
+  });
+
+  return { goals, errors };
+}
+
+/**
+ * Check an entry, returning every problem found (empty when valid)
+ */
+export function validateGoalEntry(entry: unknown, handlers: GoalHandlerLookup, now: Date): string[] {
+  if (!isObject(entry)) {
+    return ['Entry must be an object'];
+  }
+
+  const errors: string[] = [];
+  const fail = (message: string) => errors.push(message);
+
+  for (const key of Object.keys(entry)) {
+    if (!ENTRY_FIELDS.has(key)) fail(`Unknown field: ${key}`);
+  }
+
+  if (typeof entry.id !== 'string' || !entry.id.trim()) fail('"id" is required');
+  if (typeof entry.description !== 'string' || !entry.description.trim()) fail('"description" is required');
+
+  if (!GOAL_TRIGGERS.includes(entry.trigger)) {
+    fail(`"trigger" must be one of: ${GOAL_TRIGGERS.join(', ')}`);
+  }
+  if (entry.type !== undefined && !GOAL_TYPES.includes(entry.type)) {
+    fail(`"type" must be one of: ${GOAL_TYPES.join(', ')}`);
+  }
+  if (entry.priority !== undefined && !GOAL_PRIORITIES.includes(entry.priority)) {
+    fail(`"priority" must be one of: ${GOAL_PRIORITIES.join(', ')}`);
+  }
+
+  if (typeof entry.action !== 'string') {
+    fail('"action" must name a registered action');
+  } else if (!handlers.hasAction(entry.action)) {
+    fail(`Action not registered: ${entry.action}`);
+  }
+
+  if (entry.condition !== undefined) {
+    if (typeof entry.condition !== 'string') {
+      fail('"condition" must name a registered condition');
+    } else if (!handlers.hasCondition(entry.condition)) {
+      fail(`Condition not registered: ${entry.condition}`);
+    }
+  } else if (entry.trigger === 'condition') {
+    fail('Condition goals require a "condition"');
+  }
+
+  if (entry.params !== undefined && !isObject(entry.params)) fail('"params" must be an object');
+
+  if (entry.schedule !== undefined) {
+    validateSchedule(entry.schedule, now, fail);
+  } else if (entry.trigger === 'time') {
+    fail('Time goals require a "schedule" with an interval or cron');
+  }
+
+  if (entry.events !== undefined) {
+    validateEvents(entry.events, fail);
+  } else if (entry.trigger === 'event') {
+    fail('Event goals require "events"');
+  }
+
+  if (entry.dependsOn !== undefined) {
+    validateDependencies(entry.dependsOn, fail);
+  } else if (entry.trigger === 'completion') {
+    fail('Completion goals require "dependsOn"');
+  }
+
+  for (const key of ['pollInterval', 'debounce', 'cooldown', 'timeout']) {
+    if (entry[key] !== undefined && parseDuration(entry[key]) === undefined) {
+      fail(`"${key}" must be a duration (e.g. 5000, '30s', '5m')`);
+    }
+  }
+
+  if (entry.conditionMode !== undefined && !CONDITION_MODES.includes(entry.conditionMode)) {
+    fail(`"conditionMode" must be one of: ${CONDITION_MODES.join(', ')}`);
+  }
+  if (entry.maxRetries !== undefined && !isCount(entry.maxRetries)) {
+    fail('"maxRetries" must be a non-negative integer');
+  }
+  if (entry.retryPolicy !== undefined) {
+    validateRetryPolicy(entry.retryPolicy, fail);
+  }
+
+  if (entry.deadline !== undefined) {
+    validateDeadline(entry.deadline, fail);
+  }
+  if (entry.escalation !== undefined) {
+    validateEscalation(entry.escalation, fail);
+  }
+
+  if (entry.concurrencyKey !== undefined && typeof entry.concurrencyKey !== 'string') {
+    fail('"concurrencyKey" must be a string');
+  }
+  if (entry.resources !== undefined && !isStringList(entry.resources)) {
+    fail('"resources" must be a list of strings');
+  }
+  for (const key of ['enabled', 'requiresApproval']) {
+    if (entry[key] !== undefined && typeof entry[key] !== 'boolean') {
+      fail(`"${key}" must be true or false`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Read and validate a goals file
+ */
+export async function loadGoalFile(
+  filePath: string,
+  handlers: GoalHandlerLookup,
+  now: Date
+): Promise<GoalFileParseResult> {
+  const content = await fs.promises.readFile(filePath, 'utf-8');
+  return toGoalDefinitions(await parseGoalFile(content, filePath), handlers, now);
+}
+
+/**
+ * Call `onChange` (debounced) whenever the file is written, replaced or deleted
+ *
+ * Watches the parent directory, since editors often save by renaming a
+ * temporary file over the original. If the watcher fails (e.g. the directory
+ * is deleted) it is closed and `onError` is called. Returns a function that
+ * stops watching.
+ */
+export function watchGoalFile(
+  filePath: string,
+  onChange: () => void,
+  onError: (error: Error) => void
+): () => void {
+  const fileName = path.basename(filePath);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const watcher = fs.watch(path.dirname(filePath), (_eventType, changed) => {
+    if (changed && changed.toString() !== fileName) return;
+
+    clearTimeout(timer);
+    timer = setTimeout(onChange, WATCH_DEBOUNCE_MS);
+  });
+
+  watcher.on('error', (error) => {
+    clearTimeout(timer);
+    watcher.close();
+    onError(error);
+  });
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+/**
+ * Ids of goals loaded from `filePath` that the file no longer lists
+ *
+ * Invalid entries still count as listed, so their goals keep the last
+ * valid version.
+ */
+export function findRemovedGoals(goals: Goal[], filePath: string, parsed: GoalFileParseResult): string[] {
+  const listed = new Set([
+    ...parsed.goals.map(entry => entry.definition.id),
+    ...parsed.errors.flatMap(entry => entry.id ? [entry.id] : []),
+  ]);
+
+  return goals
+    .filter(goal => goal.definitionFile === filePath && !listed.has(goal.id))
+    .map(goal => goal.id);
+}
+
+/**
+ * A reloaded goal with the run state of its previous version
+ *
+ * The next scheduled run is kept unless the schedule's timing changed, and
+ * a recurring deadline keeps its renewals unless its period changed.
+ */
+export function mergeReloadedGoal(previous: Goal, reloaded: Omit<Goal, 'createdAt' | 'enabled'>): Goal {
+  const goal: Goal = {
+    ...reloaded,
+    createdAt: previous.createdAt,
+    lastRun: previous.lastRun,
+    lastOutcome: previous.lastOutcome,
+    lastCompletedAt: previous.lastCompletedAt,
+    enabled: previous.enabled,
+    retries: previous.retries,
+    backoffUntil: previous.backoffUntil,
+    deadLetter: previous.deadLetter,
+    pendingApproval: previous.pendingApproval,
+    conditionState: previous.conditionState,
+    settledOutcome: previous.settledOutcome,
+    settledAt: previous.settledAt,
+  };
+
+  if (goal.schedule && previous.schedule) {
+    const sameTiming =
+      goal.schedule.interval === previous.schedule.interval &&
+      goal.schedule.cron === previous.schedule.cron &&
+      goal.schedule.timezone === previous.schedule.timezone;
+
+    goal.schedule = {
+      ...goal.schedule,
+      nextRun: sameTiming ? previous.schedule.nextRun : goal.schedule.nextRun,
+      runsCompleted: previous.schedule.runsCompleted,
+      catchUpRuns: previous.schedule.catchUpRuns,
+      currentInterval: sameTiming && goal.schedule.adaptive ? previous.schedule.currentInterval : undefined,
+    };
+  }
+
+  if (
+    goal.deadline?.every &&
+    goal.deadline.every === previous.deadline?.every &&
+    previous.deadline.at > goal.deadline.at
+  ) {
+    goal.deadline = previous.deadline;
+  }
+
+  return goal;
+}
+
+function toGoalFileGoal(entry: GoalFileEntry, index: number, now: Date): GoalFileGoal {
+  const definition: GoalDefinition & { id: string } = {
+    id: entry.id,
+    type: entry.type ?? 'monitor',
+    description: entry.description,
+    priority: entry.priority ?? 'normal',
+    trigger: entry.trigger,
+    actionName: entry.action,
+    conditionName: entry.condition,
+    params: entry.params,
+    events: entry.events,
+    dependsOn: entry.dependsOn,
+    pollInterval: parseDuration(entry.pollInterval),
+    conditionMode: entry.conditionMode,
+    debounce: parseDuration(entry.debounce),
+    cooldown: parseDuration(entry.cooldown),
+    timeout: parseDuration(entry.timeout),
+    maxRetries: entry.maxRetries,
+    retryPolicy: entry.retryPolicy === false ? false : entry.retryPolicy && toRetryPolicy(entry.retryPolicy),
+    concurrencyKey: entry.concurrencyKey,
+    resources: entry.resources,
+    requiresApproval: entry.requiresApproval,
+    deadline: entry.deadline && {
+      at: new Date(entry.deadline.at),
+      every: parseDuration(entry.deadline.every),
+    },
+    escalation: entry.escalation && {
+      steps: entry.escalation.steps?.map(step => ({
+        before: parseDuration(step.before)!,
+        priority: step.priority,
+      })),
+      breachWindow: parseDuration(entry.escalation.breachWindow),
+      fallbackGoals: entry.escalation.fallbackGoals,
+    },
+  };
+
+  if (entry.schedule) {
+    const interval = parseDuration(entry.schedule.interval);
+    const earliest = new Date(now.getTime() + (parseDuration(entry.schedule.startDelay) ?? 0));
+
+    definition.schedule = {
+      nextRun: entry.schedule.cron
+        ? nextCronOccurrence(entry.schedule.cron, earliest, entry.schedule.timezone)
+        : earliest,
+      interval,
+      cron: entry.schedule.cron,
+      timezone: entry.schedule.timezone,
+      maxRuns: entry.schedule.maxRuns,
+      misfirePolicy: entry.schedule.misfirePolicy,
+      misfireGraceTime: parseDuration(entry.schedule.misfireGraceTime),
+      maxCatchUpRuns: entry.schedule.maxCatchUpRuns,
+      adaptive: entry.schedule.adaptive && {
+        maxInterval: parseDuration(entry.schedule.adaptive.maxInterval)!,
+        factor: entry.schedule.adaptive.factor,
+      },
+      runsCompleted: 0,
+    };
+  }
+
+  // Drop unset fields so definitions compare and persist cleanly
+  for (const key of Object.keys(definition) as Array<keyof GoalDefinition>) {
+    if (definition[key] === undefined) delete definition[key];
+  }
+
+  return { index, definition, enabled: entry.enabled, signature: JSON.stringify(entry) };
+}
+
+function toRetryPolicy(policy: Exclude<GoalFileEntry['retryPolicy'], false | undefined>): Partial<GoalRetryPolicy> {
+  const result: Partial<GoalRetryPolicy> = {};
+  if (policy.initialDelay !== undefined) result.initialDelay = parseDuration(policy.initialDelay);
+  if (policy.maxDelay !== undefined) result.maxDelay = parseDuration(policy.maxDelay);
+  if (policy.multiplier !== undefined) result.multiplier = Number(policy.multiplier);
+  if (policy.jitter !== undefined) result.jitter = Number(policy.jitter);
+  return result;
+}
+
+function validateSchedule(schedule: unknown, now: Date, fail: (message: string) => void): void {
+  if (!isObject(schedule)) {
+    fail('"schedule" must be an object');
+    return;
+  }
+
+  for (const key of Object.keys(schedule)) {
+    if (!SCHEDULE_FIELDS.has(key)) fail(`Unknown schedule field: ${key}`);
+  }
+
+  if (schedule.interval === undefined && schedule.cron === undefined) {
+    fail('"schedule" requires an interval or a cron expression');
+  }
+  if (schedule.interval !== undefined && !parseDuration(schedule.interval)) {
+    fail('"schedule.interval" must be a positive duration (e.g. 60000, \'30m\')');
+  }
+  if (schedule.startDelay !== undefined && parseDuration(schedule.startDelay) === undefined) {
+    fail('"schedule.startDelay" must be a duration');
+  }
+  if (schedule.maxRuns !== undefined && !(isCount(schedule.maxRuns) && schedule.maxRuns > 0)) {
+    fail('"schedule.maxRuns" must be a positive integer');
+  }
+  if (schedule.misfirePolicy !== undefined && !MISFIRE_POLICIES.includes(schedule.misfirePolicy)) {
+    fail(`"schedule.misfirePolicy" must be one of: ${MISFIRE_POLICIES.join(', ')}`);
+  }
+  if (schedule.misfireGraceTime !== undefined && parseDuration(schedule.misfireGraceTime) === undefined) {
+    fail('"schedule.misfireGraceTime" must be a duration');
+  }
+  if (schedule.maxCatchUpRuns !== undefined && !(isCount(schedule.maxCatchUpRuns) && schedule.maxCatchUpRuns > 0)) {
+    fail('"schedule.maxCatchUpRuns" must be a positive integer');
+  }
+  if (schedule.adaptive !== undefined) {
+    validateAdaptive(schedule.adaptive, parseDuration(schedule.interval), fail);
+  }
+  if (schedule.timezone !== undefined && typeof schedule.timezone !== 'string') {
+    fail('"schedule.timezone" must be a string');
+  }
+
+  if (schedule.cron !== undefined) {
+    if (typeof schedule.cron !== 'string') {
+      fail('"schedule.cron" must be a string');
+    } else {
+      try {
+        nextCronOccurrence(schedule.cron, now, typeof schedule.timezone === 'string' ? schedule.timezone : undefined);
+      } catch (error) {
+        fail((error as Error).message);
+      }
+    }
+  }
+}
+
+function validateEvents(events: unknown, fail: (message: string) => void): void {
+  const valid = Array.isArray(events) && events.length > 0 && events.every(subscription =>
+    typeof subscription === 'string' ||
+    (isObject(subscription) &&
+      typeof subscription.event === 'string' &&
+      (subscription.filter === undefined || isObject(subscription.filter)))
+  );
+
+  if (!valid) {
+    fail('"events" must be a list of event names or { event, filter } objects');
+  }
+}
+
+function validateDependencies(dependsOn: unknown, fail: (message: string) => void): void {
+  const valid = Array.isArray(dependsOn) && dependsOn.length > 0 && dependsOn.every(dependency =>
+    typeof dependency === 'string' ||
+    (isObject(dependency) &&
+      typeof dependency.goalId === 'string' &&
+      DEPENDENCY_OUTCOMES.includes(dependency.outcome))
+  );
+
+  if (!valid) {
+    fail('"dependsOn" must be a list of goal ids or { goalId, outcome } objects');
+  }
+}
+
+function validateRetryPolicy(policy: unknown, fail: (message: string) => void): void {
+  if (policy === false) return; // no backoff
+  if (!isObject(policy)) {
+    fail('"retryPolicy" must be an object or false');
+    return;
+  }
+
+  for (const [key, value] of Object.entries(policy)) {
+    if (!RETRY_POLICY_FIELDS.has(key)) {
+      fail(`Unknown retryPolicy field: ${key}`);
+    } else if (key === 'initialDelay' || key === 'maxDelay') {
+      if (parseDuration(value) === undefined) fail(`"retryPolicy.${key}" must be a duration`);
+    } else if (typeof value !== 'number' || value < 0) {
+      fail(`"retryPolicy.${key}" must be a non-negative number`);
+    }
+  }
+}
+
+function validateAdaptive(
+  adaptive: unknown,
+  interval: number | undefined,
+  fail: (message: string) => void
+): void {
+  if (!isObject(adaptive)) {
+    fail('"schedule.adaptive" must be an object');
+    return;
+  }
+
+  for (const key of Object.keys(adaptive)) {
+    if (!ADAPTIVE_FIELDS.has(key)) fail(`Unknown schedule.adaptive field: ${key}`);
+  }
+
+  const maxInterval = parseDuration(adaptive.maxInterval);
+  if (!maxInterval) {
+    fail('"schedule.adaptive.maxInterval" must be a positive duration');
+  } else if (!interval || maxInterval < interval) {
+    fail('"schedule.adaptive" requires an interval no longer than maxInterval');
+  }
+  if (adaptive.factor !== undefined && !(typeof adaptive.factor === 'number' && adaptive.factor > 1)) {
+    fail('"schedule.adaptive.factor" must be a number greater than 1');
+  }
+}
+
+function validateDeadline(deadline: unknown, fail: (message: string) => void): void {
+  if (!isObject(deadline)) {
+    fail('"deadline" must be an object');
+    return;
+  }
+
+  for (const key of Object.keys(deadline)) {
+    if (!DEADLINE_FIELDS.has(key)) fail(`Unknown deadline field: ${key}`);
+  }
+
+  if (typeof deadline.at !== 'string' || Number.isNaN(Date.parse(deadline.at))) {
+    fail('"deadline.at" must be an ISO timestamp');
+  }
+  if (deadline.every !== undefined && !parseDuration(deadline.every)) {
+    fail('"deadline.every" must be a positive duration');
+  }
+}
+
+function validateEscalation(escalation: unknown, fail: (message: string) => void): void {
+  if (!isObject(escalation)) {
+    fail('"escalation" must be an object');
+    return;
+  }
+
+  for (const key of Object.keys(escalation)) {
+    if (!ESCALATION_FIELDS.has(key)) fail(`Unknown escalation field: ${key}`);
+  }
+
+  if (escalation.steps !== undefined) {
+    const valid = Array.isArray(escalation.steps) && escalation.steps.every(step =>
+      isObject(step) &&
+      parseDuration(step.before) !== undefined &&
+      GOAL_PRIORITIES.includes(step.priority)
+    );
+    if (!valid) fail('"escalation.steps" must be a list of { before: <duration>, priority }');
+  }
+  if (escalation.breachWindow !== undefined && parseDuration(escalation.breachWindow) === undefined) {
+    fail('"escalation.breachWindow" must be a duration');
+  }
+  if (escalation.fallbackGoals !== undefined && !isStringList(escalation.fallbackGoals)) {
+    fail('"escalation.fallbackGoals" must be a list of goal ids');
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,105 @@
+/**
+ * Goal Dependencies - Dependency graph and chained execution for goals
+ *
+ * A goal may depend on other goals reaching an outcome (success, failure or
+ * any). Dependencies gate every trigger type; goals with the `completion`
+ * trigger additionally run each time their dependencies complete anew.
+ */
+
+import type { Goal } from './goal-loop.js';
+
+export type GoalOutcome = 'success' | 'failure';
+export type RequiredOutcome = GoalOutcome | 'any';
+
+export interface GoalDependency {
+  goalId: string;
+  outcome: RequiredOutcome;
+}
+
+export interface DependencyBlocker {
+  goalId: string;
+  required: RequiredOutcome;
+  actual?: GoalOutcome;
+  reason: 'missing' | 'not-run' | 'outcome-mismatch' | 'not-completed-since-last-run';
+}
+
+export interface GoalDependencyNode {
+  id: string;
+  description: string;
+  trigger: Goal['trigger'];
+  dependsOn: GoalDependency[];
+  dependents: string[];
+  blocked: boolean;
+  blockedBy: DependencyBlocker[];
+}
+
+/**
+ * Normalize shorthand ids (`'goal-a'`) to explicit success dependencies
+ */
+export function normalizeDependencies(dependsOn: Goal['dependsOn']): GoalDependency[] {
+  return (dependsOn ?? []).map(dep =>
+    typeof dep === 'string' ? { goalId: dep, outcome: 'success' } : dep
+  );
+}
+
+/**
+ * Find a dependency cycle through `startId`, if any
+ *
+ * Returns the cycle as a path of ids (first id repeated at the end).
+ */
+export function findDependencyCycle(
+  startId: string,
+  getDependencies: (id: string) => GoalDependency[] | undefined
+): string[] | undefined {
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | undefined => {
+    for (const dep of getDependencies(id) ?? []) {
+      if (dep.goalId === startId) {
+        return [...path, startId];
+      }
+      if (visited.has(dep.goalId)) continue;
+      visited.add(dep.goalId);
+
+      const cycle = visit(dep.goalId, [...path, dep.goalId]);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  };
+
+  return visit(startId, [startId]);
+}
+
+/**
+ * List the dependencies currently blocking a goal
+ *
+ * With `requireFresh`, each dependency must also have completed after
+ * `since` (default: the goal's own last completion, if it has one); used
+ * by the `completion` trigger.
+ */
+export function getDependencyBlockers(
+  goal: Goal,
+  lookup: (id: string) => Goal | undefined,
+  requireFresh = false,
+  since: Date | undefined = goal.lastCompletedAt
+): DependencyBlocker[] {
+  const blockers: DependencyBlocker[] = [];
+  const sinceMs = since?.getTime() ?? -Infinity;
+
+  for (const dep of normalizeDependencies(goal.dependsOn)) {
+    const target = lookup(dep.goalId);
+    const blocker = { goalId: dep.goalId, required: dep.outcome, actual: target?.lastOutcome };
+
+    if (!target) {
+      blockers.push({ ...blocker, reason: 'missing' });
+    } else if (!target.lastOutcome) {
+      blockers.push({ ...blocker, reason: 'not-run' });
+    } else if (dep.outcome !== 'any' && target.lastOutcome !== dep.outcome) {
+      blockers.push({ ...blocker, reason: 'outcome-mismatch' });
+    } else if (requireFresh && (target.lastCompletedAt?.getTime() ?? 0) <= sinceMs) {
+      blockers.push({ ...blocker, reason: 'not-completed-since-last-run' });
+    }
+  }
+
+  return blockers;
+}
@@ -0,0 +1,66 @@
+/**
+ * Goal Events - Named event subscriptions for GoalLoop goals
+ *
+ * Goals subscribe to events by name, optionally narrowed by a payload
+ * filter. Publishers (heartbeat checks, orchestrator callbacks, file
+ * watchers) only need the event name, never internal goal ids.
+ */
+
+/**
+ * Payload filter
+ *
+ * Object filters match when every key matches the payload: primitives by
+ * equality, arrays as "one of", nested objects recursively. Function
+ * filters are evaluated directly but cannot be persisted.
+ */
+export type GoalEventFilter = Record<string, any> | ((payload: any) => boolean);
+
+export interface GoalEventSubscription {
+  event: string;
+  filter?: GoalEventFilter;
+}
+
+export interface GoalEvent {
+  name: string;
+  payload?: any;
+  publishedAt: Date;
+}
+
+/**
+ * Check whether an event matches a subscription
+ */
+export function matchesSubscription(
+  subscription: string | GoalEventSubscription,
+  event: Pick<GoalEvent, 'name' | 'payload'>
+): boolean {
+  if (typeof subscription === 'string') {
+    return subscription === event.name;
+  }
+
+  if (subscription.event !== event.name) return false;
+  if (!subscription.filter) return true;
+
+  if (typeof subscription.filter === 'function') {
+    return subscription.filter(event.payload);
+  }
+
+  return matchesFilter(event.payload, subscription.filter);
+}
+
+function matchesFilter(value: any, filter: Record<string, any>): boolean {
+  if (value === null || typeof value !== 'object') return false;
+
+  return Object.entries(filter).every(([key, expected]) => {
+    const actual = value[key];
+
+    if (Array.isArray(expected)) {
+      return expected.includes(actual);
+    }
+
+    if (expected !== null && typeof expected === 'object') {
+      return matchesFilter(actual, expected);
+    }
+
+    return actual === expected;
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for Goal History
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GoalHistory, RingBuffer, percentile, type GoalRunRecord } from './goal-history';
+
+function run(outcome: GoalRunRecord['outcome'], durationMs: number, error?: string): GoalRunRecord {
+  const finishedAt = new Date('2026-02-10T13:00:00.000Z');
+  return {
+    startedAt: new Date(finishedAt.getTime() - durationMs),
+    finishedAt,
+    durationMs,
+    outcome,
+    result: outcome === 'success' ? { success: true } : undefined,
+    error,
+  };
+}
+
+describe('RingBuffer', () => {
+  it('should keep only the newest items, oldest first', () => {
+    const buffer = new RingBuffer<number>(3);
+    for (let i = 1; i <= 5; i++) buffer.push(i);
+
+    expect(buffer.size).toBe(3);
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+  });
+});
+
+describe('percentile', () => {
+  it('should use the nearest rank', () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 95)).toBe(100);
+    expect(percentile([], 50)).toBeUndefined();
+  });
+});
+
+describe('GoalHistory', () => {
+  it('should compute success rate, durations and failure streaks', () => {
+    const history = new GoalHistory('sync', 10);
+    history.record(run('success', 100));
+    history.record(run('success', 300));
+    history.record(run('cancelled', 50));
+    history.record(run('failure', 200, 'Remote unavailable'));
+    history.record(run('timeout', 1000, 'Goal timed out after 1000ms: sync'));
+
+    const stats = history.getStats();
+    expect(stats.totalRuns).toBe(5);
+    expect(stats.successes).toBe(2);
+    expect(stats.failures).toBe(2);
+    expect(stats.successRate).toBe(0.5);
+    expect(stats.p50Duration).toBe(200);
+    expect(stats.p95Duration).toBe(1000);
+    expect(stats.consecutiveFailures).toBe(2);
+    expect(stats.lastError?.message).toBe('Goal timed out after 1000ms: sync');
+  });
+
+  it('should keep counters beyond the history window', () => {
+    const history = new GoalHistory('sync', 2);
+    history.record(run('failure', 10, 'first'));
+    history.record(run('failure', 10, 'second'));
+    history.record(run('failure', 10, 'third'));
+
+    const stats = history.getStats();
+    expect(stats.recentRuns).toBe(2);
+    expect(stats.totalRuns).toBe(3);
+    expect(stats.consecutiveFailures).toBe(3);
+  });
+});
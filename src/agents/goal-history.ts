@@ -0,0 +1,152 @@
+/**
+ * Goal History - Bounded per-goal run history and statistics
+ *
+ * Each goal keeps its most recent runs in a ring buffer (result, timing,
+ * outcome). Counters that must survive the window (consecutive failures,
+ * last error, total runs) are tracked alongside it. With debug logging,
+ * the reasons due runs were held back are kept in a second buffer. History
+ * is in-memory only; the audit log is the durable record.
+ */
+
+import type { AuditOutcome } from './goal-audit.js';
+import type { GoalResult } from './goal-loop.js';
+
+export interface GoalRunRecord {
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  outcome: AuditOutcome;
+  result?: GoalResult; // set when the action returned
+  error?: string; // set when it threw or timed out
+}
+
+export interface GoalNotRunRecord {
+  at: Date;
+  reasons: string[]; // as in GoalLoop.explainGoal()
+}
+
+export interface GoalStats {
+  goalId: string;
+  totalRuns: number; // since the goal was added
+  recentRuns: number; // runs in the history window
+  successes: number; // in the window
+  failures: number; // in the window (timeouts included)
+  successRate?: number; // 0-1, cancelled runs excluded
+  p50Duration?: number; // milliseconds
+  p95Duration?: number; // milliseconds
+  consecutiveFailures: number;
+  lastRunAt?: Date;
+  lastError?: { message: string; at: Date };
+}
+
+/**
+ * Fixed-capacity buffer that overwrites its oldest item
+ */
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+
+  constructor(private readonly capacity: number) {
+    if (capacity < 1) {
+      throw new Error('RingBuffer capacity must be at least 1');
+    }
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return;
+    }
+
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  /**
+   * Items oldest to newest
+   */
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+}
+
+/**
+ * Run history of a single goal
+ */
+export class GoalHistory {
+  private runs: RingBuffer<GoalRunRecord>;
+  private notRuns: RingBuffer<GoalNotRunRecord>;
+  private totalRuns = 0;
+  private consecutiveFailures = 0;
+  private lastError?: { message: string; at: Date };
+
+  constructor(private readonly goalId: string, capacity: number) {
+    this.runs = new RingBuffer(capacity);
+    this.notRuns = new RingBuffer(capacity);
+  }
+
+  record(run: GoalRunRecord): void {
+    this.runs.push(run);
+    this.totalRuns++;
+
+    if (run.outcome === 'success') {
+      this.consecutiveFailures = 0;
+    } else if (run.outcome !== 'cancelled') {
+      this.consecutiveFailures++;
+      this.lastError = {
+        message: run.error ?? run.result?.message ?? 'Goal reported failure',
+        at: run.finishedAt,
+      };
+    }
+  }
+
+  getRuns(): GoalRunRecord[] {
+    return this.runs.toArray();
+  }
+
+  /**
+   * Record why a due run did not start (not counted as a run)
+   */
+  recordNotRun(record: GoalNotRunRecord): void {
+    this.notRuns.push(record);
+  }
+
+  getNotRuns(): GoalNotRunRecord[] {
+    return this.notRuns.toArray();
+  }
+
+  getStats(): GoalStats {
+    const runs = this.runs.toArray();
+    const successes = runs.filter(run => run.outcome === 'success').length;
+    const failures = runs.filter(run => run.outcome === 'failure' || run.outcome === 'timeout').length;
+    const durations = runs.map(run => run.durationMs).sort((a, b) => a - b);
+
+    return {
+      goalId: this.goalId,
+      totalRuns: this.totalRuns,
+      recentRuns: runs.length,
+      successes,
+      failures,
+      successRate: successes + failures > 0 ? successes / (successes + failures) : undefined,
+      p50Duration: percentile(durations, 50),
+      p95Duration: percentile(durations, 95),
+      consecutiveFailures: this.consecutiveFailures,
+      lastRunAt: runs[runs.length - 1]?.finishedAt,
+      lastError: this.lastError,
+    };
+  }
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+export function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined;
+
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
@@ -0,0 +1,85 @@
+/**
+ * Goal Locks - Mutual-exclusion keys and resource locks for goals
+ *
+ * A goal names the resources it touches (`resources`) and/or a shared
+ * `concurrencyKey`. Each key admits a limited number of concurrent holders
+ * (1 unless configured), so goals sharing a key never overlap beyond it.
+ * Goals that find a key at its limit wait until a holder releases it.
+ */
+
+import type { Goal } from './goal-loop.js';
+
+/**
+ * Lock keys a goal holds while running
+ */
+export function getLockKeys(goal: Pick<Goal, 'concurrencyKey' | 'resources'>): string[] {
+  const keys = [...(goal.concurrencyKey ? [goal.concurrencyKey] : []), ...(goal.resources ?? [])];
+  return [...new Set(keys)];
+}
+
+/**
+ * Held lock counts and the goals waiting on them
+ */
+export class GoalLockTable {
+  private held: Map<string, number> = new Map();
+  private waiters: Set<string> = new Set();
+
+  constructor(private readonly limits: Record<string, number> = {}) {}
+
+  /**
+   * Keys among `keys` that are at their limit
+   */
+  getBusy(keys: string[]): string[] {
+    return keys.filter(key => (this.held.get(key) ?? 0) >= (this.limits[key] ?? 1));
+  }
+
+  acquire(keys: string[]): void {
+    for (const key of keys) {
+      this.held.set(key, (this.held.get(key) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Release keys and hand back the goals that waited on any lock
+   *
+   * The waiters are cleared; they re-queue themselves if still blocked.
+   */
+  release(keys: string[]): string[] {
+    if (keys.length === 0) return [];
+
+    for (const key of keys) {
+      const held = (this.held.get(key) ?? 1) - 1;
+      if (held > 0) {
+        this.held.set(key, held);
+      } else {
+        this.held.delete(key);
+      }
+    }
+
+    const waiters = [...this.waiters];
+    this.waiters.clear();
+    return waiters;
+  }
+
+  /**
+   * Queue a goal until a lock is released
+   */
+  wait(goalId: string): void {
+    this.waiters.add(goalId);
+  }
+
+  isWaiting(goalId: string): boolean {
+    return this.waiters.has(goalId);
+  }
+
+  forget(goalId: string): void {
+    this.waiters.delete(goalId);
+  }
+
+  /**
+   * Holder counts per held key
+   */
+  snapshot(): Record<string, number> {
+    return Object.fromEntries(this.held);
+  }
+}
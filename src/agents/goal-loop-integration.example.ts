@@ -7,7 +7,7 @@
  * @author Gucci (guccichong.888@gmail.com)
  */
 
-import { GoalLoop, createTimeBasedGoal, createConditionBasedGoal } from './goal-loop';
+import { GoalLoop, createTimeBasedGoal, createConditionBasedGoal, createEventBasedGoal } from './goal-loop';
 import type { GoalResult } from './goal-loop';
 
 /**
@@ -50,6 +50,7 @@ export function setupEmailMonitoring(goalLoop: GoalLoop) {
       }
     },
     {
+      id: 'email-monitor',
       type: 'monitor',
       priority: 'high',
       interval: 30 * 60 * 1000, // 30 minutes
@@ -70,16 +71,6 @@ export function setupProactiveLearning(goalLoop: GoalLoop) {
     'Daily autonomous learning session',
     async (): Promise<GoalResult> => {
       try {
-        // Check if it's 3 AM
-        const hour = new Date().getHours();
-        if (hour !== 3) {
-          return { 
-            success: true, 
-            message: 'Not 3 AM yet',
-            shouldReschedule: true,
-          };
-        }
-
         // TODO: Integrate with research system
         // const topics = await identifyLearningTopics();
         // const researchResults = await conductResearch(topics);
@@ -97,10 +88,10 @@ export function setupProactiveLearning(goalLoop: GoalLoop) {
       }
     },
     {
+      id: 'proactive-learning',
       type: 'learn',
       priority: 'normal',
-      interval: 24 * 60 * 60 * 1000, // 24 hours
-      startDelay: getMillisecondsUntil3AM(),
+      cron: '0 3 * * *', // Daily at 3 AM
     }
   );
 
@@ -137,19 +128,24 @@ export function setupTaskReconciliation(goalLoop: GoalLoop) {
       }
     },
     {
+      id: 'task-reconciliation',
       type: 'optimize',
       priority: 'normal',
       interval: 30 * 60 * 1000, // 30 minutes
     }
   );
 
+  // Never edit the board while another goal is writing it
+  taskGoal.resources = ['kanban/tasks.json'];
+
   goalLoop.addGoal(taskGoal);
 }
 
 /**
  * Example 4: Git Monitoring
  * 
- * Check for uncommitted changes daily
+ * Check for uncommitted changes, hourly after a change and backing off
+ * to daily while the workspace stays clean
  */
 export function setupGitMonitoring(goalLoop: GoalLoop) {
   const gitGoal = createTimeBasedGoal(
@@ -166,10 +162,12 @@ export function setupGitMonitoring(goalLoop: GoalLoop) {
         // if (stdout.trim()) {
         //   await notifyUser('Uncommitted git changes detected');
         // }
+        const dirty = false; // stdout.trim() !== ''
 
         return { 
           success: true, 
           message: 'Git check complete',
+          changed: dirty,
         };
       } catch (error) {
         return { 
@@ -179,12 +177,16 @@ export function setupGitMonitoring(goalLoop: GoalLoop) {
       }
     },
     {
+      id: 'git-monitor',
       type: 'monitor',
       priority: 'low',
-      interval: 24 * 60 * 60 * 1000, // 24 hours
+      interval: 60 * 60 * 1000, // 1 hour
+      adaptive: { maxInterval: 24 * 60 * 60 * 1000 }, // Up to 24 hours while clean
     }
   );
 
+  gitGoal.resources = ['git-workspace'];
+
   goalLoop.addGoal(gitGoal);
 }
 
@@ -222,8 +224,11 @@ export function setupConditionBasedNotification(goalLoop: GoalLoop) {
       }
     },
     {
+      id: 'important-event-notification',
       type: 'communicate',
       priority: 'critical',
+      conditionMode: 'rising-edge', // Notify once per event, not every poll
+      debounce: 10 * 1000,
     }
   );
 
@@ -257,16 +262,91 @@ export function setupMemoryMaintenance(goalLoop: GoalLoop) {
       }
     },
     {
+      id: 'memory-maintenance',
       type: 'optimize',
       priority: 'low',
-      interval: 7 * 24 * 60 * 60 * 1000, // Weekly
-      startDelay: getMillisecondsUntil3AM(),
+      cron: '0 3 * * 0', // Weekly, Sunday at 3 AM
     }
   );
 
   goalLoop.addGoal(memoryGoal);
 }
 
+/**
+ * Example 7: Event-Driven Follow-Up
+ * 
+ * Summarize findings whenever a background research task completes.
+ * Publishers only know the event name, e.g.:
+ *   goalLoop.publish('orchestrator:taskCompleted', workerResult)
+ */
+export function setupResearchFollowUp(goalLoop: GoalLoop) {
+  const followUpGoal = createEventBasedGoal(
+    'Summarize completed research',
+    [{ event: 'orchestrator:taskCompleted', filter: { success: true } }],
+    async ({ event }): Promise<GoalResult> => {
+      const taskId = event?.payload?.taskId;
+
+      // TODO: Integrate with memory system
+      // await writeResearchSummary(event?.payload?.data);
+
+      return { 
+        success: true, 
+        message: `Research summary written for ${taskId}`,
+      };
+    },
+    {
+      id: 'research-follow-up',
+      type: 'research',
+      priority: 'normal',
+    }
+  );
+
+  goalLoop.addGoal(followUpGoal);
+}
+
+/**
+ * Example 8: Declarative Goals
+ *
+ * Goals live in memory/goals.yaml and name the handlers registered here,
+ * so they can be added and tuned without code changes. Edits are picked
+ * up while the loop runs.
+ *
+ *   goals:
+ *     - id: email-monitor
+ *       description: Monitor email for urgent messages
+ *       priority: high
+ *       trigger: time
+ *       action: check-email
+ *       params: { folder: INBOX }
+ *       schedule: { interval: 30m, startDelay: 1m }
+ */
+export function setupDeclarativeGoals(): GoalLoop {
+  const goalLoop = new GoalLoop({
+    goalsFile: 'memory/goals.yaml',
+    enablePersistence: true, // Keep run state across restarts and edits
+  });
+
+  goalLoop.registerAction('check-email', async ({ folder }): Promise<GoalResult> => {
+    // TODO: Integrate with actual email service
+    return { success: true, message: `Checked ${folder ?? 'INBOX'}` };
+  });
+
+  goalLoop.registerAction('reconcile-tasks', async (): Promise<GoalResult> => {
+    // TODO: Integrate with Kanban
+    return { success: true, message: 'Tasks reconciled' };
+  });
+
+  goalLoop.on('goalsFileLoaded', ({ errors }) => {
+    for (const { index, id, errors: problems } of errors) {
+      console.warn(`[Autonomous] goals.yaml entry ${index} (${id ?? 'no id'}): ${problems.join('; ')}`);
+    }
+  });
+
+  goalLoop.start().catch(console.error);
+
+  return goalLoop;
+}
+
 /**
  * Complete integration setup
  * 
@@ -279,6 +359,8 @@ export function setupAutonomousAgent(): GoalLoop {
     maxTotalGoals: 100,
     enableLogging: true,
     logPath: 'memory/autonomous-actions.log',
+    enablePersistence: true, // Keep schedules across restarts
+    storePath: 'memory/goals.json',
   });
 
   // Set up all autonomous behaviors
@@ -288,6 +370,7 @@ export function setupAutonomousAgent(): GoalLoop {
   setupGitMonitoring(goalLoop);
   setupConditionBasedNotification(goalLoop);
   setupMemoryMaintenance(goalLoop);
+  setupResearchFollowUp(goalLoop);
 
   // Listen to events for debugging/monitoring
   goalLoop.on('goalStarted', (goal) => {
@@ -308,23 +391,6 @@ export function setupAutonomousAgent(): GoalLoop {
   return goalLoop;
 }
 
-/**
- * Helper: Calculate milliseconds until 3 AM
- */
-function getMillisecondsUntil3AM(): number {
-  const now = new Date();
-  const target = new Date(now);
-  
-  target.setHours(3, 0, 0, 0);
-  
-  // If 3 AM already passed today, target tomorrow
-  if (target <= now) {
-    target.setDate(target.getDate() + 1);
-  }
-  
-  return target.getTime() - now.getTime();
-}
-
 /**
  * Example: Graceful shutdown
  */
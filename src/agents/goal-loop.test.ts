@@ -3,7 +3,28 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { GoalLoop, createTimeBasedGoal, createConditionBasedGoal, type GoalResult } from './goal-loop';
+import {
+  GoalLoop,
+  createTimeBasedGoal,
+  createConditionBasedGoal,
+  createEventBasedGoal,
+  createCompletionBasedGoal,
+  computeBackoffDelay,
+  type GoalDefinition,
+  type GoalPriority,
+  type GoalResult,
+  type GoalRunContext,
+  type GoalSchedule,
+  type GoalSlaBreach,
+  type GoalType,
+} from './goal-loop';
+import { JsonFileGoalStore, serializeGoal } from './goal-store';
+import { ParallelOrchestrator, type WorkerTask } from './parallel-orchestrator';
+import { VirtualClock } from './goal-clock';
+import type { GoalMisfire } from './goal-misfire';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
 
 describe('GoalLoop', () => {
   let goalLoop: GoalLoop;
@@ -178,6 +199,61 @@ describe('GoalLoop', () => {
       await goalLoop.stop();
       await startPromise;
     });
+    it('should schedule cron goals at the next occurrence', () => {
+      const id = goalLoop.addGoal(createTimeBasedGoal(
+        'Daily 3 AM goal',
+        async () => ({ success: true }),
+        { cron: '0 3 * * *', timezone: 'UTC' }
+      ));
+
+      const nextRun = goalLoop.getGoal(id)!.schedule!.nextRun;
+      expect(nextRun.getUTCHours()).toBe(3);
+      expect(nextRun.getUTCMinutes()).toBe(0);
+      expect(nextRun.getTime()).toBeGreaterThan(Date.now());
+      expect(nextRun.getTime() - Date.now()).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+    });
+
+    it('should schedule the first run from the loop clock', () => {
+      const clock = new VirtualClock(new Date('2026-02-10T05:00:00.000Z'));
+      const loop = new GoalLoop({ enableLogging: false, clock });
+      const action = async () => ({ success: true });
+
+      const delayed = loop.addGoal(createTimeBasedGoal('Hourly', action, { interval: 60 * 60 * 1000, startDelay: 60 * 1000 }));
+      const nightly = loop.addGoal(createTimeBasedGoal('Nightly', action, { cron: '0 3 * * *', timezone: 'UTC' }));
+
+      expect(loop.getGoal(delayed)!.schedule).toMatchObject({ nextRun: new Date('2026-02-10T05:01:00.000Z') });
+      expect(loop.getGoal(delayed)!.schedule).not.toHaveProperty('startDelay');
+      expect(loop.getGoal(nightly)!.schedule!.nextRun).toEqual(new Date('2026-02-11T03:00:00.000Z'));
+    });
+
+    it('should reschedule cron goals after execution', async () => {
+      const goal = createTimeBasedGoal(
+        'Every minute',
+        async () => ({ success: true }),
+        { cron: '* * * * *' }
+      );
+      goal.schedule!.nextRun = new Date(); // Due now
+
+      const id = goalLoop.addGoal(goal);
+      const startPromise = goalLoop.start();
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const schedule = goalLoop.getGoal(id)!.schedule!;
+      expect(schedule.runsCompleted).toBe(1);
+      expect(schedule.nextRun.getSeconds()).toBe(0);
+      expect(schedule.nextRun.getTime()).toBeGreaterThan(Date.now());
+
+      await goalLoop.stop();
+      await startPromise;
+    });
+
+    it('should require an interval or a cron expression', () => {
+      expect(() => createTimeBasedGoal('No schedule', async () => ({ success: true }), {}))
+        .toThrow('requires an interval or a cron expression');
+      expect(() => createTimeBasedGoal('Bad cron', async () => ({ success: true }), { cron: 'often' }))
+        .toThrow('Invalid cron expression');
+    });
   });
 
   describe('Condition-Based Goals', () => {
@@ -240,6 +316,493 @@ describe('GoalLoop', () => {
       await goalLoop.stop();
       await startPromise;
     });
+
+    it('should fire rising-edge goals once per false -> true transition', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      let urgent = false;
+      let runs = 0;
+
+      const id = loop.addGoal(createConditionBasedGoal(
+        'Urgent email',
+        () => urgent,
+        async () => {
+          runs++;
+          return { success: true };
+        },
+        { conditionMode: 'rising-edge' }
+      ));
+
+      const startPromise = loop.start();
+      await clock.advance(5000);
+      expect(runs).toBe(0);
+
+      urgent = true;
+      await clock.advance(10000);
+      expect(runs).toBe(1);
+
+      urgent = false;
+      await clock.advance(5000);
+      urgent = true;
+      await clock.advance(5000);
+      expect(runs).toBe(2);
+      expect(loop.getGoal(id)?.conditionState?.value).toBe(true);
+      expect(loop.getGoal(id)?.conditionState?.changedAt.toISOString()).toBe('2026-02-10T00:00:21.000Z');
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should wait out the debounce window before firing', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      let diskFull = true;
+      const runTimes: number[] = [];
+
+      loop.addGoal(createConditionBasedGoal(
+        'Disk full',
+        () => diskFull,
+        async () => {
+          runTimes.push(clock.now());
+          return { success: true };
+        },
+        { conditionMode: 'rising-edge', debounce: 30000, pollInterval: 10000 }
+      ));
+
+      const startPromise = loop.start();
+
+      // True for 0-20s only: shorter than the window, never fires
+      await clock.advance(20000);
+      diskFull = false;
+      await clock.advance(60000);
+      expect(runTimes).toEqual([]);
+
+      // True again from the 90s poll on; fires 30s later
+      diskFull = true;
+      await clock.advance(60000);
+
+      expect(runTimes).toEqual([new Date('2026-02-10T00:02:00.000Z').getTime()]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should enforce a cooldown between level-triggered runs', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      let runs = 0;
+      const changes: boolean[] = [];
+      loop.on('conditionChanged', ({ value }) => changes.push(value));
+
+      loop.addGoal(createConditionBasedGoal(
+        'Always true',
+        () => true,
+        async () => {
+          runs++;
+          return { success: true };
+        },
+        { cooldown: 60000 }
+      ));
+
+      const startPromise = loop.start();
+      await clock.advance(5 * 60 * 1000);
+
+      // t = 0, 1, 2, 3, 4, 5 minutes
+      expect(runs).toBe(6);
+      expect(changes).toEqual([true]);
+
+      await loop.stop();
+      await startPromise;
+    });
+  });
+
+  describe('Event-Triggered Goals', () => {
+    it('should run subscribed goals with the published payload', async () => {
+      const received: GoalRunContext[] = [];
+
+      goalLoop.addGoal(createEventBasedGoal(
+        'React to task completion',
+        ['task:completed'],
+        async (context) => {
+          received.push(context);
+          return { success: true };
+        }
+      ));
+
+      const startPromise = goalLoop.start();
+
+      const queued = goalLoop.publish('task:completed', { taskId: 't1' });
+      expect(queued).toHaveLength(1);
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      expect(received).toHaveLength(1);
+      expect(received[0].event?.name).toBe('task:completed');
+      expect(received[0].event?.payload).toEqual({ taskId: 't1' });
+
+      await goalLoop.stop();
+      await startPromise;
+    });
+
+    it('should only queue goals whose filter matches', () => {
+      const researchId = goalLoop.addGoal(createEventBasedGoal(
+        'Research follow-up',
+        [{ event: 'task:completed', filter: { type: ['research', 'learn'] } }],
+        async () => ({ success: true })
+      ));
+
+      const urgentId = goalLoop.addGoal(createEventBasedGoal(
+        'Urgent email',
+        [{ event: 'email:received', filter: (payload) => payload.urgent === true }],
+        async () => ({ success: true })
+      ));
+
+      expect(goalLoop.publish('task:completed', { type: 'monitor' })).toEqual([]);
+      expect(goalLoop.publish('task:completed', { type: 'learn' })).toEqual([researchId]);
+      expect(goalLoop.publish('email:received', { urgent: false })).toEqual([]);
+      expect(goalLoop.publish('email:received', { urgent: true })).toEqual([urgentId]);
+    });
+
+    it('should queue one run per published event', async () => {
+      let runs = 0;
+
+      goalLoop.addGoal(createEventBasedGoal(
+        'Count events',
+        ['file:changed'],
+        async () => {
+          runs++;
+          return { success: true };
+        }
+      ));
+
+      goalLoop.publish('file:changed', { path: 'a.md' });
+      goalLoop.publish('file:changed', { path: 'b.md' });
+      goalLoop.publish('file:other');
+
+      const startPromise = goalLoop.start();
+      await new Promise(resolve => setTimeout(resolve, 350));
+
+      expect(runs).toBe(2);
+
+      await goalLoop.stop();
+      await startPromise;
+    });
+
+    it('should not queue disabled goals', () => {
+      const id = goalLoop.addGoal(createEventBasedGoal(
+        'Disabled listener',
+        ['ping'],
+        async () => ({ success: true })
+      ));
+      goalLoop.setGoalEnabled(id, false);
+
+      expect(goalLoop.publish('ping')).toEqual([]);
+    });
+  });
+
+  describe('Goal Dependencies', () => {
+    it('should chain completion goals after a successful dependency', async () => {
+      const order: string[] = [];
+
+      const emailId = goalLoop.addGoal(createTimeBasedGoal(
+        'Email monitoring',
+        async () => {
+          order.push('email');
+          return { success: true };
+        },
+        { interval: 60 * 60 * 1000, startDelay: 0 }
+      ));
+
+      goalLoop.addGoal(createCompletionBasedGoal(
+        'Reconcile tasks',
+        [emailId],
+        async () => {
+          order.push('reconcile');
+          return { success: true };
+        }
+      ));
+
+      const startPromise = goalLoop.start();
+      await new Promise(resolve => setTimeout(resolve, 350));
+
+      // Reconcile runs once per email completion, not on every tick
+      expect(order).toEqual(['email', 'reconcile']);
+
+      await goalLoop.stop();
+      await startPromise;
+    });
+
+    it('should gate goals on the required outcome', async () => {
+      let fallbackRuns = 0;
+      let successRuns = 0;
+
+      const flakyId = goalLoop.addGoal(createTimeBasedGoal(
+        'Flaky check',
+        async () => ({ success: false, message: 'Service unavailable' }),
+        { interval: 60 * 60 * 1000, startDelay: 0 }
+      ));
+
+      goalLoop.addGoal(createCompletionBasedGoal(
+        'Fallback',
+        [{ goalId: flakyId, outcome: 'failure' }],
+        async () => {
+          fallbackRuns++;
+          return { success: true };
+        }
+      ));
+
+      goalLoop.addGoal(createCompletionBasedGoal(
+        'Happy path',
+        [{ goalId: flakyId, outcome: 'success' }],
+        async () => {
+          successRuns++;
+          return { success: true };
+        }
+      ));
+
+      const startPromise = goalLoop.start();
+      await new Promise(resolve => setTimeout(resolve, 350));
+
+      expect(fallbackRuns).toBe(1);
+      expect(successRuns).toBe(0);
+
+      await goalLoop.stop();
+      await startPromise;
+    });
+
+    it('should reject dependency cycles', () => {
+      const a = goalLoop.addGoal({
+        ...createCompletionBasedGoal('A', ['goal-c'], async () => ({ success: true })),
+        id: 'goal-a',
+      });
+      goalLoop.addGoal({
+        ...createCompletionBasedGoal('B', [a], async () => ({ success: true })),
+        id: 'goal-b',
+      });
+
+      expect(() => goalLoop.addGoal({
+        ...createCompletionBasedGoal('C', ['goal-b'], async () => ({ success: true })),
+        id: 'goal-c',
+      })).toThrow('Goal dependency cycle detected: goal-c -> goal-b -> goal-a -> goal-c');
+
+      expect(() => goalLoop.addGoal({
+        ...createCompletionBasedGoal('Self', ['self'], async () => ({ success: true })),
+        id: 'self',
+      })).toThrow('cycle detected');
+    });
+
+    it('should report blocked goals in the dependency graph', () => {
+      const monitorId = goalLoop.addGoal(createTimeBasedGoal(
+        'Monitor',
+        async () => ({ success: true }),
+        { interval: 1000 }
+      ));
+
+      const reportId = goalLoop.addGoal(createCompletionBasedGoal(
+        'Report',
+        [monitorId, { goalId: 'missing-goal', outcome: 'any' }],
+        async () => ({ success: true })
+      ));
+
+      const graph = goalLoop.getDependencyGraph();
+      const monitor = graph.find(node => node.id === monitorId)!;
+      const report = graph.find(node => node.id === reportId)!;
+
+      expect(monitor.blocked).toBe(false);
+      expect(monitor.dependents).toEqual([reportId]);
+
+      expect(report.blocked).toBe(true);
+      expect(report.blockedBy).toEqual([
+        { goalId: monitorId, required: 'success', actual: undefined, reason: 'not-run' },
+        { goalId: 'missing-goal', required: 'any', actual: undefined, reason: 'missing' },
+      ]);
+    });
+  });
+
+  describe('Sub-Goals', () => {
+    const MINUTE = 60 * 1000;
+
+    const step = (clock: VirtualClock, id: string, action: GoalDefinition['action'], parentId?: string) => ({
+      id,
+      type: 'learn' as const,
+      description: id,
+      priority: 'normal' as const,
+      trigger: 'time' as const,
+      schedule: { nextRun: new Date(clock.now()), interval: 24 * 60 * MINUTE },
+      parentId,
+      action,
+    });
+
+    it('should complete a parent once the sub-goals it spawned succeed', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const completed: string[] = [];
+      let celebrated = 0;
+
+      loop.on('subGoalsCompleted', ({ goal }) => completed.push(goal.id));
+      loop.addGoal(step(clock, 'generics', async ({ spawn }) => {
+        spawn(step(clock, 'read-handbook', async () => ({ success: true })));
+        spawn(step(clock, 'do-exercises', async () => ({ success: true })));
+        spawn(step(clock, 'write-notes', async () => {
+          await new Promise<void>(resolve => clock.setTimeout(resolve, 10 * MINUTE));
+          return { success: true };
+        }));
+        return { success: true, message: 'Plan created' };
+      }));
+      loop.addGoal(createCompletionBasedGoal('Celebrate', ['generics'], async () => {
+        celebrated++;
+        return { success: true };
+      }, { id: 'celebrate' }));
+
+      const startPromise = loop.start();
+      await clock.advance(5000);
+
+      expect(loop.getGoalProgress('generics')).toMatchObject({
+        policy: 'all',
+        total: 3,
+        succeeded: 2,
+        pending: 1,
+        required: 3,
+      });
+      expect(loop.getGoalProgress('generics')!.progress).toBeCloseTo(2 / 3);
+      expect(loop.explainGoal('generics')!.reasons).toContain('Waiting on sub-goals (2/3 succeeded, 1 pending)');
+      expect(celebrated).toBe(0);
+
+      await clock.advance(10 * MINUTE);
+
+      expect(completed).toEqual(['generics']);
+      expect(loop.getGoal('generics')).toMatchObject({ settledOutcome: 'success', lastOutcome: 'success' });
+      expect(loop.getGoal('read-handbook')).toMatchObject({ settledOutcome: 'success', enabled: false });
+      expect(celebrated).toBe(1);
+
+      const tree = loop.getAllGoals({ tree: true });
+      expect(tree.map(node => node.goal.id)).toEqual(['generics', 'celebrate']);
+      expect(tree[0].progress).toMatchObject({ progress: 1, outcome: 'success' });
+      expect(tree[0].children.map(node => node.goal.id)).toEqual(['read-handbook', 'do-exercises', 'write-notes']);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should settle parents under any and quorum policies', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const failed: string[] = [];
+      const pass = async () => ({ success: true });
+      const fail = async () => ({ success: false, message: 'Not found' });
+      const slow = async ({ signal }: GoalRunContext) => {
+        await new Promise<void>(resolve => signal.addEventListener('abort', () => resolve()));
+        return { success: true };
+      };
+
+      loop.on('subGoalsFailed', ({ goal }) => failed.push(goal.id));
+      loop.addGoal({ ...createEventBasedGoal('Find a mirror', ['never'], pass, { id: 'mirror' }), childPolicy: 'any' });
+      loop.addGoal(step(clock, 'mirror-a', slow, 'mirror'));
+      loop.addGoal(step(clock, 'mirror-b', pass, 'mirror'));
+      loop.addGoal({ ...createEventBasedGoal('Replicate', ['never'], pass, { id: 'replicas' }), childPolicy: { quorum: 2 } });
+      loop.addGoal(step(clock, 'replica-a', pass, 'replicas'));
+      loop.addGoal(step(clock, 'replica-b', fail, 'replicas'));
+      loop.addGoal(step(clock, 'replica-c', fail, 'replicas'));
+
+      const startPromise = loop.start();
+      await clock.advance(5000);
+
+      expect(loop.getGoal('mirror')!.settledOutcome).toBe('success');
+      expect(loop.getGoal('mirror-a')!.enabled).toBe(false);
+      expect(loop.getGoal('mirror-a')!.settledOutcome).toBeUndefined();
+      expect(loop.getGoalHistory('mirror-a').map(run => run.outcome)).toEqual(['cancelled']);
+      expect(failed).toEqual(['replicas']);
+      expect(loop.getGoalProgress('replicas')).toMatchObject({ succeeded: 1, failed: 2, outcome: 'failure' });
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should start a new goal tree when a settled parent spawns again', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const settled: string[] = [];
+      let day = 0;
+
+      loop.on('subGoalsCompleted', ({ goal }) => settled.push(`completed ${goal.id}`));
+      loop.on('subGoalsFailed', ({ goal }) => settled.push(`failed ${goal.id}`));
+      loop.addGoal(step(clock, 'review', async ({ spawn }) => {
+        day++;
+        const failing = day === 2;
+        spawn(step(clock, 'review-inbox', async () => ({ success: true })));
+        spawn(step(clock, 'review-calendar', async () => ({ success: !failing })));
+        return { success: true };
+      }));
+
+      const startPromise = loop.start();
+      await clock.advance(5000);
+      expect(settled).toEqual(['completed review']);
+
+      await clock.advance(24 * 60 * MINUTE);
+
+      expect(day).toBe(2);
+      expect(settled).toEqual(['completed review', 'failed review']);
+      expect(loop.getGoalProgress('review')).toMatchObject({ total: 2, succeeded: 1, failed: 1, outcome: 'failure' });
+      expect(loop.getGoal('review')!.lastOutcome).toBe('failure');
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should cascade removal to sub-goals', () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ enableLogging: false, clock });
+      const removed: string[] = [];
+      const settled: string[] = [];
+      const pass = async () => ({ success: true });
+
+      loop.on('goalRemoved', (goal) => removed.push(goal.id));
+      for (const event of ['subGoalsCompleted', 'subGoalsFailed', 'subGoalSettled']) {
+        loop.on(event, ({ goal }) => settled.push(`${event} ${goal.id}`));
+      }
+      loop.addGoal({ ...step(clock, 'project', pass), childPolicy: { quorum: 2 } });
+      loop.addGoal(step(clock, 'phase-1', pass, 'project'));
+      loop.addGoal(step(clock, 'task-1a', pass, 'phase-1'));
+      loop.addGoal(step(clock, 'phase-2', pass, 'project'));
+      loop.addGoal(step(clock, 'phase-3', pass, 'project'));
+      loop.addGoal(step(clock, 'other', pass));
+
+      expect(() => loop.addGoal(step(clock, 'stray', pass, 'missing'))).toThrow('Parent goal not found: missing');
+
+      expect(loop.removeGoal('project')).toBe(true);
+      expect(removed).toEqual(['task-1a', 'phase-1', 'phase-2', 'phase-3', 'project']);
+      expect(settled).toEqual([]);
+      expect(loop.getAllGoals().map(goal => goal.id)).toEqual(['other']);
+    });
+
+    it('should abort the runs of removed goals and their sub-goals', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const cancelled: string[] = [];
+      const slow = async ({ signal }: GoalRunContext) => {
+        await new Promise<void>(resolve => signal.addEventListener('abort', () => resolve()));
+        return { success: true };
+      };
+
+      loop.on('goalCancelled', ({ goal, reason }) => cancelled.push(`${goal.id} ${reason}`));
+      loop.addGoal(step(clock, 'migration', async (context) => {
+        context.spawn(step(clock, 'copy-tables', slow));
+        return slow(context);
+      }));
+
+      const startPromise = loop.start();
+      await clock.advance(5000);
+      expect(loop.getStatus().executingGoals).toBe(2);
+
+      loop.removeGoal('migration');
+      await clock.advance(1000);
+
+      expect(cancelled.sort()).toEqual(['copy-tables removed', 'migration removed']);
+      expect(loop.getStatus()).toMatchObject({ executingGoals: 0, runStats: { totalRuns: 0 } });
+
+      await loop.stop();
+      await startPromise;
+    });
   });
 
   describe('Priority Handling', () => {
@@ -285,6 +848,72 @@ describe('GoalLoop', () => {
       await goalLoop.stop();
       await startPromise;
     });
+
+    describe('Priority Aging', () => {
+      const runStarvationScenario = async (priorityAging?: { interval: number }) => {
+        const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+        const loop = new GoalLoop({
+          tickInterval: 1000,
+          maxConcurrentGoals: 1,
+          enableLogging: false,
+          clock,
+          priorityAging,
+        });
+        const runs: string[] = [];
+        const busyAction = (id: string) => async () => {
+          runs.push(id);
+          await new Promise<void>(resolve => clock.setTimeout(resolve, 1000));
+          return { success: true };
+        };
+
+        // Two high goals that are always due keep the single slot busy
+        for (const id of ['high-a', 'high-b']) {
+          loop.addGoal({
+            id,
+            type: 'monitor',
+            description: id,
+            priority: 'high',
+            trigger: 'time',
+            schedule: { nextRun: new Date(clock.now()), interval: 1 },
+            action: busyAction(id),
+          });
+        }
+        loop.addGoal({
+          id: 'low',
+          type: 'learn',
+          description: 'Low priority',
+          priority: 'low',
+          trigger: 'time',
+          schedule: { nextRun: new Date(clock.now()), maxRuns: 1 },
+          action: busyAction('low'),
+        });
+
+        const startPromise = loop.start();
+        await clock.advance(2500);
+        const status = loop.getGoalStatus('low');
+        await clock.advance(7500);
+
+        await loop.stop({ abortInFlight: true });
+        await startPromise;
+
+        return { runs, status };
+      };
+
+      it('should starve low-priority goals without aging', async () => {
+        const { runs, status } = await runStarvationScenario();
+
+        expect(runs).not.toContain('low');
+        expect(status?.effectivePriority).toBe(1);
+      });
+
+      it('should raise effective priority while a goal waits', async () => {
+        const { runs, status } = await runStarvationScenario({ interval: 1000 });
+
+        expect(runs).toContain('low');
+        expect(status?.effectivePriority).toBe(3.5); // low (1) + 2.5 levels
+        expect(status?.waitingSince?.toISOString()).toBe('2026-02-10T00:00:00.000Z');
+      });
+    });
   });
 
   describe('Error Handling', () => {
@@ -332,6 +961,7 @@ describe('GoalLoop', () => {
       );
 
       goal.maxRetries = 3;
+      goal.retryPolicy = false; // retry on the next tick
 
       const id = goalLoop.addGoal(goal);
       
@@ -349,84 +979,2205 @@ describe('GoalLoop', () => {
     });
   });
 
-  describe('Concurrency Control', () => {
-    it('should respect max concurrent goals limit', async () => {
-      const limitedLoop = new GoalLoop({
-        maxConcurrentGoals: 2,
-        tickInterval: 50,
-        enableLogging: false,
-      });
+  describe('Retry Backoff', () => {
+    it('should compute exponential delays capped at maxDelay', () => {
+      const policy = { initialDelay: 100, multiplier: 2, maxDelay: 1000, jitter: 0 };
 
-      let maxConcurrent = 0;
-      let currentConcurrent = 0;
+      expect(computeBackoffDelay(policy, 1)).toBe(100);
+      expect(computeBackoffDelay(policy, 2)).toBe(200);
+      expect(computeBackoffDelay(policy, 4)).toBe(800);
+      expect(computeBackoffDelay(policy, 10)).toBe(1000);
+    });
 
-      const createSlowGoal = () => createTimeBasedGoal(
-        'Slow goal',
+    it('should apply jitter in both directions', () => {
+      const policy = { initialDelay: 1000, multiplier: 2, maxDelay: 60000, jitter: 0.5 };
+
+      expect(computeBackoffDelay(policy, 1, () => 0)).toBe(500);
+      expect(computeBackoffDelay(policy, 1, () => 0.5)).toBe(1000);
+      expect(computeBackoffDelay(policy, 1, () => 1)).toBe(1500);
+    });
+
+    it('should push nextRun back after a failure and reset on success', async () => {
+      let attempts = 0;
+
+      const goal = createTimeBasedGoal(
+        'Fails once',
         async () => {
-          currentConcurrent++;
-          maxConcurrent = Math.max(maxConcurrent, currentConcurrent);
-          
-          await new Promise(resolve => setTimeout(resolve, 100));
-          
-          currentConcurrent--;
+          attempts++;
+          if (attempts === 1) throw new Error('Transient');
           return { success: true };
         },
-        { 
-          interval: 10000, // Only run once
-          startDelay: 0,
-        }
+        { interval: 60 * 60 * 1000, startDelay: 0 }
       );
+      goal.retryPolicy = { initialDelay: 200, jitter: 0 };
 
-      // Add 5 goals
-      for (let i = 0; i < 5; i++) {
-        limitedLoop.addGoal(createSlowGoal());
-      }
+      const id = goalLoop.addGoal(goal);
+      const startPromise = goalLoop.start();
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      // Failed once, backing off rather than retrying every tick
+      expect(attempts).toBe(1);
+      expect(goalLoop.getGoal(id)?.backoffUntil).toBeInstanceOf(Date);
 
-      const startPromise = limitedLoop.start();
-      
       await new Promise(resolve => setTimeout(resolve, 300));
-      
-      // Should never exceed max concurrent
-      expect(maxConcurrent).toBeLessThanOrEqual(2);
 
-      await limitedLoop.stop();
+      const recovered = goalLoop.getGoal(id)!;
+      expect(attempts).toBe(2);
+      expect(recovered.retries).toBe(0);
+      expect(recovered.backoffUntil).toBeUndefined();
+
+      await goalLoop.stop();
       await startPromise;
     });
-  });
 
-  describe('Event Emission', () => {
-    it('should emit events for goal lifecycle', async () => {
-      const events: string[] = [];
+    it('should back off by default unless retryPolicy is false', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const fail = async (): Promise<GoalResult> => {
+        throw new Error('Unreachable');
+      };
 
-      goalLoop.on('started', () => events.push('started'));
-      goalLoop.on('goalAdded', () => events.push('goalAdded'));
-      goalLoop.on('goalStarted', () => events.push('goalStarted'));
-      goalLoop.on('goalCompleted', () => events.push('goalCompleted'));
-      goalLoop.on('stopped', () => events.push('stopped'));
+      const backedOff = loop.addGoal(createTimeBasedGoal('Default backoff', fail, { interval: 60 * 60 * 1000 }));
+      const immediate = loop.addGoal({
+        ...createTimeBasedGoal('No backoff', fail, { interval: 60 * 60 * 1000 }),
+        retryPolicy: false,
+      });
+
+      const startPromise = loop.start();
+      await clock.advance(0);
+
+      // 1s initial delay, 10% jitter
+      const retryIn = loop.getGoal(backedOff)!.backoffUntil!.getTime() - clock.now();
+      expect(retryIn).toBeGreaterThanOrEqual(900);
+      expect(retryIn).toBeLessThanOrEqual(1100);
+      expect(loop.getGoal(backedOff)!.schedule!.nextRun).toEqual(loop.getGoal(backedOff)!.backoffUntil);
+
+      // Still due: retried on the next tick
+      expect(loop.getGoal(immediate)!.backoffUntil).toBeUndefined();
+      expect(loop.getGoal(immediate)!.schedule!.nextRun.getTime()).toBe(clock.now());
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should dead-letter goals with exhausted retries and revive them', async () => {
+      let attempts = 0;
+      const deadLettered: string[] = [];
 
       const goal = createTimeBasedGoal(
-        'Event test',
-        async () => ({ success: true }),
-        { 
-          interval: 1000,
-          startDelay: 50,
-        }
+        'Always fails',
+        async () => {
+          attempts++;
+          throw new Error(`Failure ${attempts}`);
+        },
+        { interval: 60 * 60 * 1000, startDelay: 0 }
       );
+      goal.maxRetries = 2;
+      goal.retryPolicy = { initialDelay: 20, jitter: 0 };
 
-      goalLoop.addGoal(goal);
-      
+      goalLoop.on('goalDeadLettered', (g) => deadLettered.push(g.id));
+
+      const id = goalLoop.addGoal(goal);
       const startPromise = goalLoop.start();
-      
-      await new Promise(resolve => setTimeout(resolve, 200));
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      expect(deadLettered).toEqual([id]);
+      expect(goalLoop.getDeadLetters().map(g => g.id)).toEqual([id]);
+      expect(goalLoop.getGoal(id)?.deadLetter?.error).toBe('Failure 2');
+      expect(goalLoop.getStatus().deadLetterGoals).toBe(1);
+
+      expect(goalLoop.reviveGoal(id)).toBe(true);
+      expect(goalLoop.getDeadLetters()).toHaveLength(0);
+      expect(goalLoop.getGoal(id)?.retries).toBe(0);
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(attempts).toBeGreaterThan(2);
+
+      expect(goalLoop.reviveGoal('unknown')).toBe(false);
+
+      await goalLoop.stop();
+      await startPromise;
+    });
+  });
+
+  describe('Approval Gate', () => {
+    // Hourly goal due at the virtual clock's start
+    const hourlyGoal = (
+      clock: VirtualClock,
+      description: string,
+      action: () => Promise<GoalResult>,
+      options: { type?: GoalType; priority?: GoalPriority } = {}
+    ) => {
+      const goal = createTimeBasedGoal(description, action, { ...options, interval: 60 * 60 * 1000 });
+      goal.schedule!.nextRun = new Date(clock.now());
+      return goal;
+    };
+
+    it('should hold matching goals until approved', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({
+        tickInterval: 1000,
+        enableLogging: false,
+        clock,
+        approvalPolicy: { types: ['communicate'] },
+      });
+      const requested: any[] = [];
+      let sent = 0;
+      let checked = 0;
+
+      loop.on('approvalRequired', (request) => requested.push(request));
+
+      const id = loop.addGoal(hourlyGoal(clock, 'Send morning summary', async () => {
+        sent++;
+        return { success: true };
+      }, { type: 'communicate' }));
+      loop.addGoal(hourlyGoal(clock, 'Check email', async () => {
+        checked++;
+        return { success: true };
+      }));
+
+      const startPromise = loop.start();
+      await clock.advance(5000);
+
+      // Other goals are not gated
+      expect(checked).toBe(1);
+      expect(sent).toBe(0);
+      expect(requested).toHaveLength(1);
+      expect(requested[0].preview).toMatchObject({ goalId: id, type: 'communicate' });
+      expect(loop.getGoalStatus(id)?.awaitingApproval).toBe(true);
+      expect(loop.getStatus().pendingApprovals).toBe(1);
+
+      expect(loop.approve(id)).toBe(true);
+      await clock.advance(0);
+
+      expect(sent).toBe(1);
+      expect(loop.getPendingApprovals()).toHaveLength(0);
+      expect(loop.approve(id)).toBe(false);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should skip the occurrence when rejected or expired', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({
+        tickInterval: 1000,
+        enableLogging: false,
+        clock,
+        approvalPolicy: { priorities: ['critical'], timeout: 10 * 60 * 1000 },
+      });
+      const expired: string[] = [];
+      let runs = 0;
+
+      loop.on('approvalExpired', ({ goal }) => expired.push(goal.id));
+
+      const id = loop.addGoal(hourlyGoal(clock, 'Restart gateway', async () => {
+        runs++;
+        return { success: true };
+      }, { priority: 'critical' }));
+
+      const startPromise = loop.start();
+      await clock.advance(0);
+
+      expect(loop.reject(id, 'not now')).toBe(true);
+      expect(loop.getGoal(id)?.schedule?.nextRun.toISOString()).toBe('2026-02-10T01:00:00.000Z');
+
+      // Next occurrence times out unanswered
+      await clock.advance(60 * 60 * 1000);
+      expect(loop.getGoalStatus(id)?.awaitingApproval).toBe(true);
+
+      await clock.advance(10 * 60 * 1000);
+      expect(expired).toEqual([id]);
+      expect(loop.getGoal(id)?.pendingApproval).toBeUndefined();
+      expect(loop.getGoal(id)?.schedule?.nextRun.toISOString()).toBe('2026-02-10T02:10:00.000Z');
+      expect(runs).toBe(0);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should let requiresApproval override the policy', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({
+        tickInterval: 1000,
+        enableLogging: false,
+        clock,
+        approvalPolicy: { types: ['communicate'] },
+      });
+
+      const trusted = hourlyGoal(clock, 'Trusted notifier', async () => ({ success: true }), {
+        type: 'communicate',
+      });
+      trusted.requiresApproval = false;
+      const cleanup = hourlyGoal(clock, 'Delete old logs', async () => ({ success: true }));
+      cleanup.requiresApproval = true;
+
+      loop.addGoal(trusted);
+      const cleanupId = loop.addGoal(cleanup);
+
+      const startPromise = loop.start();
+      await clock.advance(0);
+
+      expect(loop.getPendingApprovals().map(goal => goal.id)).toEqual([cleanupId]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should gate manual triggers behind approval', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({
+        tickInterval: 1000,
+        enableLogging: false,
+        clock,
+        approvalPolicy: { types: ['communicate'] },
+      });
+      const requested: string[] = [];
+      let sent = 0;
+
+      loop.on('approvalRequired', ({ goal }) => requested.push(goal.id));
+
+      const id = loop.addGoal(createEventBasedGoal('Send digest', ['digest:ready'], async () => {
+        sent++;
+        return { success: true };
+      }, { type: 'communicate' }));
+
+      const startPromise = loop.start();
+      await clock.advance(0);
+
+      await expect(loop.triggerGoal(id)).rejects.toThrow(`Goal ${id} is awaiting approval`);
+      await expect(loop.triggerGoal(id)).rejects.toThrow(`Goal ${id} is awaiting approval`);
+      expect(sent).toBe(0);
+      expect(requested).toEqual([id]);
+
+      expect(loop.approve(id)).toBe(true);
+      await clock.advance(0);
+      expect(sent).toBe(1);
+      expect(loop.getPendingApprovals()).toHaveLength(0);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should keep pending approvals and their events across restarts', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'goal-loop-test-'));
+      const storePath = path.join(tempDir, 'goals.json');
+      const payloads: any[] = [];
+
+      const createLoop = () => {
+        const loop = new GoalLoop({
+          tickInterval: 50,
+          enableLogging: false,
+          enablePersistence: true,
+          storePath,
+          approvalPolicy: { types: ['communicate'] },
+        });
+        loop.registerAction('reply', async (_params, context) => {
+          payloads.push(context.event?.payload);
+          return { success: true };
+        });
+        return loop;
+      };
+
+      try {
+        const firstLoop = createLoop();
+        firstLoop.addGoal({
+          id: 'auto-reply',
+          type: 'communicate',
+          description: 'Reply to urgent email',
+          priority: 'high',
+          trigger: 'event',
+          events: ['email:urgent'],
+          actionName: 'reply',
+        });
+
+        const firstStart = firstLoop.start();
+        firstLoop.publish('email:urgent', { from: 'boss' });
+        await new Promise(resolve => setTimeout(resolve, 100));
+        await firstLoop.stop();
+        await firstStart;
+
+        expect(firstLoop.getGoal('auto-reply')?.pendingApproval?.preview.event).toEqual({
+          name: 'email:urgent',
+          payload: { from: 'boss' },
+        });
+
+        const secondLoop = createLoop();
+        const secondStart = secondLoop.start();
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(secondLoop.getPendingApprovals().map(goal => goal.id)).toEqual(['auto-reply']);
+        expect(secondLoop.approve('auto-reply')).toBe(true);
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(payloads).toEqual([{ from: 'boss' }]);
+
+        await secondLoop.stop();
+        await secondStart;
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Worker Goals', () => {
+    // Answers each task on the virtual clock instead of spawning threads
+    class FakeOrchestrator extends ParallelOrchestrator {
+      submitted: Array<Omit<WorkerTask, 'id'>> = [];
+      cancelled: Array<[string, string]> = [];
+
+      constructor(
+        private readonly clock: VirtualClock,
+        private readonly respond: (taskId: string, task: Omit<WorkerTask, 'id'>) => void
+      ) {
+        super({ enableLogging: false });
+      }
+
+      async submitTask(task: Omit<WorkerTask, 'id'>): Promise<string> {
+        this.submitted.push(task);
+        const taskId = `task_${this.submitted.length}`;
+        this.clock.setTimeout(() => task.onProgress?.({ taskId, completed: 50, total: 100, message: 'Halfway' }), 1000);
+        this.clock.setTimeout(() => this.respond(taskId, task), 2000);
+        return taskId;
+      }
+
+      cancelTask(taskId: string, reason = 'cancelled'): boolean {
+        this.cancelled.push([taskId, reason]);
+        return true;
+      }
+    }
+
+    const workerGoal = (clock: VirtualClock, id: string, task: GoalDefinition['task']): GoalDefinition => ({
+      id,
+      type: 'research',
+      description: `Research ${id}`,
+      priority: 'high',
+      trigger: 'time',
+      schedule: { nextRun: new Date(clock.now()), interval: 24 * 60 * 60 * 1000 },
+      maxRetries: 1,
+      task,
+    });
+
+    it('should run the task on the orchestrator and map progress and result', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const orchestrator = new FakeOrchestrator(clock, (taskId, task) => {
+        task.onComplete?.({ taskId, success: true, data: { findings: 3 }, duration: 2000 });
+      });
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock, orchestrator });
+      const progress: any[] = [];
+      const results: GoalResult[] = [];
+
+      loop.on('goalProgress', ({ goal, ...update }) => progress.push({ goalId: goal.id, ...update }));
+      loop.on('goalCompleted', ({ result }) => results.push(result));
+      loop.addGoal(workerGoal(clock, 'vector-dbs', { type: 'research', config: { topic: 'vector databases' } }));
+      loop.addGoal({
+        ...workerGoal(clock, 'defaults', { type: 'research', config: undefined, description: undefined }),
+        priority: 'low',
+      });
+
+      const startPromise = loop.start();
+      await clock.advance(5000);
+
+      expect(orchestrator.submitted[0]).toMatchObject({
+        type: 'research',
+        description: 'Research vector-dbs',
+        priority: 3,
+        config: { topic: 'vector databases' },
+      });
+      expect(orchestrator.submitted[1]).toMatchObject({ description: 'Research defaults', priority: 1, config: {} });
+      expect(progress).toEqual([
+        { goalId: 'vector-dbs', taskId: 'task_1', completed: 50, total: 100, message: 'Halfway' },
+        { goalId: 'defaults', taskId: 'task_2', completed: 50, total: 100, message: 'Halfway' },
+      ]);
+      expect(results).toEqual([
+        { success: true, message: 'Worker task task_1 completed (2000ms)', data: { findings: 3 } },
+        { success: true, message: 'Worker task task_2 completed (2000ms)', data: { findings: 3 } },
+      ]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should fail the run when the task errors or is terminated', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const orchestrator = new FakeOrchestrator(clock, (taskId, task) => {
+        if (task.config.terminate) {
+          orchestrator.emit('taskTerminated', { taskId, reason: 'timeout' });
+          task.onError?.(new Error('Task terminated: timeout'));
+        } else {
+          task.onError?.(new Error('Worker exited with code 1'));
+        }
+      });
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock, orchestrator });
+      const errors: Record<string, string> = {};
+
+      loop.on('goalError', ({ goal, error }) => { errors[goal.id] = error.message; });
+      loop.addGoal(workerGoal(clock, 'crashing', { type: 'research' }));
+      loop.addGoal(workerGoal(clock, 'slow', { type: 'research', config: { terminate: true }, timeout: 2000 }));
+
+      const startPromise = loop.start();
+      await clock.advance(5000);
+
+      expect(errors).toEqual({
+        crashing: 'Worker exited with code 1',
+        slow: 'Task terminated: timeout',
+      });
+      expect(loop.getGoal('crashing')!.deadLetter?.error).toBe('Worker exited with code 1');
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should cancel the worker task when the run is cancelled', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const orchestrator = new FakeOrchestrator(clock, () => {}); // never answers
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock, orchestrator });
+      const cancelled: string[] = [];
+
+      loop.on('goalCancelled', ({ goal }) => cancelled.push(goal.id));
+      loop.addGoal(workerGoal(clock, 'stuck', { type: 'research' }));
+
+      const startPromise = loop.start();
+      await clock.advance(1000);
+
+      expect(loop.cancelGoal('stuck')).toBe(true);
+      await clock.advance(1000);
+
+      expect(cancelled).toEqual(['stuck']);
+      expect(orchestrator.cancelled[0]).toEqual(['task_1', 'goal aborted']);
+
+      // Cancelling is not a completed run, so the goal is still due and runs again
+      await loop.stop({ abortInFlight: true });
+      await startPromise;
+      expect(orchestrator.cancelled.map(([taskId]) => taskId))
+        .toEqual(orchestrator.submitted.map((_, i) => `task_${i + 1}`));
+    });
+
+    it('should reject worker goals whose task type the orchestrator cannot run', () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ enableLogging: false, clock, orchestrator: new FakeOrchestrator(clock, () => {}) });
+
+      expect(() => loop.addGoal(workerGoal(clock, 'transcode', { type: 'transcode', config: {} })))
+        .toThrow('Unknown task type: transcode');
+      expect(loop.getGoal('transcode')).toBeUndefined();
+    });
+
+    it('should require an orchestrator and restore worker goals without a registered action', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const task = { type: 'learn' as const, config: { subject: 'generics' } };
+
+      expect(() => new GoalLoop({ enableLogging: false, clock }).addGoal(workerGoal(clock, 'study', task)))
+        .toThrow('Worker goals require an orchestrator');
+
+      const stored = serializeGoal({
+        ...workerGoal(clock, 'study', task),
+        schedule: { nextRun: new Date(clock.now()), interval: 24 * 60 * 60 * 1000 },
+        id: 'study',
+        action: async () => ({ success: true }),
+        createdAt: new Date(clock.now()),
+        enabled: false, // restored, not run
+      });
+      const loop = new GoalLoop({
+        enableLogging: false,
+        clock,
+        orchestrator: new FakeOrchestrator(clock, () => {}),
+        enablePersistence: true,
+        store: { load: async () => [stored], save: async () => {} },
+      });
+
+      const startPromise = loop.start();
+      await clock.advance(1000);
+      expect(loop.getGoal('study')?.task).toEqual(task);
+
+      await loop.stop();
+      await startPromise;
+    });
+  });
+
+  describe('Timeouts and Cancellation', () => {
+    it('should time out hung goals, abort their signal and count a retry', async () => {
+      let signal: AbortSignal | undefined;
+      const timeouts: number[] = [];
+      const errors: Error[] = [];
+
+      const goal = createTimeBasedGoal(
+        'Hung goal',
+        (context) => {
+          signal = context.signal;
+          return new Promise<GoalResult>(() => {}); // Never settles
+        },
+        { interval: 60 * 60 * 1000, startDelay: 0 }
+      );
+      goal.timeout = 50;
+      goal.maxRetries = 1;
+
+      goalLoop.on('goalTimeout', ({ timeout }) => timeouts.push(timeout));
+      goalLoop.on('goalError', ({ error }) => errors.push(error));
+
+      const id = goalLoop.addGoal(goal);
+      const startPromise = goalLoop.start();
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(timeouts).toEqual([50]);
+      expect(errors).toHaveLength(0);
+      expect(signal?.aborted).toBe(true);
+      expect(goalLoop.getGoal(id)?.retries).toBe(1);
+      expect(goalLoop.getGoal(id)?.enabled).toBe(false);
+      expect(goalLoop.getStatus().executingGoals).toBe(0);
+
+      await goalLoop.stop();
+      await startPromise;
+    });
+
+    it('should cancel an in-flight goal without counting a retry', async () => {
+      const cancelled: string[] = [];
+
+      const id = goalLoop.addGoal(createEventBasedGoal(
+        'Long-running goal',
+        ['run'],
+        ({ signal }) => new Promise<GoalResult>((resolve) => {
+          signal.addEventListener('abort', () => resolve({ success: false }));
+        })
+      ));
+
+      goalLoop.on('goalCancelled', ({ reason }) => cancelled.push(reason));
+
+      const startPromise = goalLoop.start();
+      goalLoop.publish('run');
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      expect(goalLoop.getStatus().executingGoals).toBe(1);
+      expect(goalLoop.cancelGoal(id)).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(cancelled).toEqual(['cancelled']);
+      expect(goalLoop.getStatus().executingGoals).toBe(0);
+      expect(goalLoop.getGoal(id)?.retries).toBe(0);
+      expect(goalLoop.cancelGoal(id)).toBe(false);
+
+      await goalLoop.stop();
+      await startPromise;
+    });
+
+    it('should stop after the timeout even if a goal ignores its signal', async () => {
+      goalLoop.addGoal(createTimeBasedGoal(
+        'Stubborn goal',
+        () => new Promise<GoalResult>(() => {}),
+        { interval: 60 * 60 * 1000, startDelay: 0 }
+      ));
+
+      const startPromise = goalLoop.start();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(goalLoop.getStatus().executingGoals).toBe(1);
+
+      const stopStarted = Date.now();
+      await goalLoop.stop({ timeoutMs: 100 });
+      await startPromise;
+
+      expect(Date.now() - stopStarted).toBeLessThan(1000);
+      expect(goalLoop.getStatus().executingGoals).toBe(0);
+    });
+
+    it('should time out stop in real time on a virtual clock', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+
+      loop.addGoal(createTimeBasedGoal(
+        'Waits on virtual time',
+        () => new Promise<GoalResult>(resolve => clock.setTimeout(() => resolve({ success: true }), 60 * 1000)),
+        { interval: 60 * 60 * 1000, startDelay: 0 }
+      ));
+
+      const startPromise = loop.start();
+      await clock.advance(0);
+      expect(loop.getStatus().executingGoals).toBe(1);
+
+      // Nobody advances the clock while stopping
+      await loop.stop({ timeoutMs: 50 });
+      await startPromise;
+
+      expect(loop.getStatus().executingGoals).toBe(0);
+      expect(loop.getGoalHistory(loop.getAllGoals()[0].id).map(run => run.outcome)).toEqual(['cancelled']);
+    });
+
+    it('should abort in-flight goals on stop when requested', async () => {
+      let aborted = false;
+
+      goalLoop.addGoal(createTimeBasedGoal(
+        'Cooperative goal',
+        ({ signal }) => new Promise<GoalResult>((resolve) => {
+          signal.addEventListener('abort', () => {
+            aborted = true;
+            resolve({ success: false });
+          });
+        }),
+        { interval: 60 * 60 * 1000, startDelay: 0 }
+      ));
+
+      const startPromise = goalLoop.start();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      await goalLoop.stop({ abortInFlight: true });
+      await startPromise;
+
+      expect(aborted).toBe(true);
+      expect(goalLoop.getStatus().executingGoals).toBe(0);
+    });
+  });
+
+  describe('Concurrency Control', () => {
+    it('should respect max concurrent goals limit', async () => {
+      const limitedLoop = new GoalLoop({
+        maxConcurrentGoals: 2,
+        tickInterval: 50,
+        enableLogging: false,
+      });
+
+      let maxConcurrent = 0;
+      let currentConcurrent = 0;
+
+      const createSlowGoal = () => createTimeBasedGoal(
+        'Slow goal',
+        async () => {
+          currentConcurrent++;
+          maxConcurrent = Math.max(maxConcurrent, currentConcurrent);
+          
+          await new Promise(resolve => setTimeout(resolve, 100));
+          
+          currentConcurrent--;
+          return { success: true };
+        },
+        { 
+          interval: 10000, // Only run once
+          startDelay: 0,
+        }
+      );
+
+      // Add 5 goals
+      for (let i = 0; i < 5; i++) {
+        limitedLoop.addGoal(createSlowGoal());
+      }
+
+      const startPromise = limitedLoop.start();
+      
+      await new Promise(resolve => setTimeout(resolve, 300));
+      
+      // Should never exceed max concurrent
+      expect(maxConcurrent).toBeLessThanOrEqual(2);
+
+      await limitedLoop.stop();
+      await startPromise;
+    });
+
+    describe('Resource Locks', () => {
+      const lockedGoal = (
+        clock: VirtualClock,
+        id: string,
+        options: { priority?: GoalPriority; resources?: string[]; concurrencyKey?: string; duration?: number },
+        log: string[]
+      ) => ({
+        id,
+        type: 'optimize' as const,
+        description: id,
+        priority: options.priority ?? 'normal',
+        trigger: 'time' as const,
+        resources: options.resources,
+        concurrencyKey: options.concurrencyKey,
+        schedule: { nextRun: new Date(clock.now()), maxRuns: 1 },
+        action: async () => {
+          log.push(`start ${id}`);
+          await new Promise<void>(resolve => clock.setTimeout(resolve, options.duration ?? 1000));
+          log.push(`end ${id}`);
+          return { success: true };
+        },
+      });
+
+      it('should never overlap goals sharing a resource', async () => {
+        const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+        const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+        const log: string[] = [];
+
+        loop.addGoal(lockedGoal(clock, 'reconcile', { resources: ['kanban/tasks.json'] }, log));
+        loop.addGoal(lockedGoal(clock, 'archive', { resources: ['kanban/tasks.json', 'git'] }, log));
+        loop.addGoal(lockedGoal(clock, 'email', {}, log));
+
+        const startPromise = loop.start();
+        await clock.advance(0);
+        expect(loop.getStatus().locks).toEqual({ 'kanban/tasks.json': 1 });
+
+        await clock.advance(5000);
+        await loop.stop();
+        await startPromise;
+
+        // archive takes the lock as soon as reconcile releases it
+        expect(log).toEqual([
+          'start reconcile',
+          'start email',
+          'end reconcile',
+          'start archive',
+          'end email',
+          'end archive',
+        ]);
+      });
+
+      it('should honour per-key concurrency limits', async () => {
+        const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+        const loop = new GoalLoop({
+          tickInterval: 1000,
+          enableLogging: false,
+          clock,
+          concurrencyLimits: { 'search-api': 2 },
+        });
+        const log: string[] = [];
+
+        for (const id of ['a', 'b', 'c']) {
+          loop.addGoal(lockedGoal(clock, id, { concurrencyKey: 'search-api' }, log));
+        }
+
+        const startPromise = loop.start();
+        await clock.advance(0);
+        expect(log).toEqual(['start a', 'start b']);
+        expect(loop.getGoalStatus('c')?.waitingOnLocks).toEqual(['search-api']);
+
+        await clock.advance(5000);
+        await loop.stop();
+        await startPromise;
+
+        expect(log).toEqual(['start a', 'start b', 'end a', 'start c', 'end b', 'end c']);
+      });
+
+      it('should hand a released lock to the highest-priority waiter', async () => {
+        const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+        const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+        const log: string[] = [];
+
+        loop.addGoal(lockedGoal(clock, 'holder', { priority: 'critical', resources: ['git'] }, log));
+        loop.addGoal(lockedGoal(clock, 'low', { priority: 'low', resources: ['git'] }, log));
+        loop.addGoal(lockedGoal(clock, 'high', { priority: 'high', resources: ['git'] }, log));
+
+        const startPromise = loop.start();
+        await clock.advance(5000);
+        await loop.stop();
+        await startPromise;
+
+        expect(log.filter(entry => entry.startsWith('start'))).toEqual([
+          'start holder',
+          'start high',
+          'start low',
+        ]);
+      });
+
+      it('should keep locks until a timed-out action really ends', async () => {
+        const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+        const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+        const log: string[] = [];
+
+        // Actions ignore their signal and outlive the 1s timeout
+        for (const [id, resources] of [['a', ['kanban']], ['b', ['kanban', 'git']], ['c', ['git', 'kanban']]]) {
+          loop.addGoal({
+            ...lockedGoal(clock, id as string, { resources: resources as string[], duration: 3000 }, log),
+            timeout: 1000,
+            maxRetries: 1,
+          });
+        }
+
+        const startPromise = loop.start();
+        await clock.advance(2000);
+
+        expect(loop.getStatus().executingGoals).toBe(0);
+        expect(loop.getStatus().locks).toEqual({ kanban: 1 });
+        expect(log).toEqual(['start a']);
+
+        await clock.advance(10000);
+        await loop.stop();
+        await startPromise;
+
+        expect(log).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+        expect(loop.getStatus().locks).toEqual({});
+      });
+    });
+  });
+
+  describe('Event Emission', () => {
+    it('should emit events for goal lifecycle', async () => {
+      const events: string[] = [];
+
+      goalLoop.on('started', () => events.push('started'));
+      goalLoop.on('goalAdded', () => events.push('goalAdded'));
+      goalLoop.on('goalStarted', () => events.push('goalStarted'));
+      goalLoop.on('goalCompleted', () => events.push('goalCompleted'));
+      goalLoop.on('stopped', () => events.push('stopped'));
+
+      const goal = createTimeBasedGoal(
+        'Event test',
+        async () => ({ success: true }),
+        { 
+          interval: 1000,
+          startDelay: 50,
+        }
+      );
+
+      goalLoop.addGoal(goal);
+      
+      const startPromise = goalLoop.start();
+      
+      await new Promise(resolve => setTimeout(resolve, 200));
       
       await goalLoop.stop();
       await startPromise;
 
-      expect(events).toContain('started');
-      expect(events).toContain('goalAdded');
-      expect(events).toContain('goalStarted');
-      expect(events).toContain('goalCompleted');
-      expect(events).toContain('stopped');
+      expect(events).toContain('started');
+      expect(events).toContain('goalAdded');
+      expect(events).toContain('goalStarted');
+      expect(events).toContain('goalCompleted');
+      expect(events).toContain('stopped');
+    });
+  });
+
+  describe('Persistence', () => {
+    let tempDir: string;
+    let storePath: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'goal-loop-test-'));
+      storePath = path.join(tempDir, 'goals.json');
+    });
+
+    afterEach(async () => {
+      try {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
+      }
+    });
+
+    it('should rehydrate goals with registered actions after restart', async () => {
+      const calls: Record<string, any>[] = [];
+
+      const firstLoop = new GoalLoop({
+        tickInterval: 50,
+        enableLogging: false,
+        enablePersistence: true,
+        storePath,
+      });
+      firstLoop.registerAction('record', async (params) => {
+        calls.push(params);
+        return { success: true };
+      });
+
+      firstLoop.addGoal({
+        id: 'recorder',
+        type: 'monitor',
+        description: 'Recorded goal',
+        priority: 'normal',
+        trigger: 'time',
+        actionName: 'record',
+        params: { source: 'test' },
+        schedule: { nextRun: new Date(), interval: 60 * 60 * 1000 },
+      });
+
+      const firstStart = firstLoop.start();
+      await new Promise(resolve => setTimeout(resolve, 150));
+      await firstLoop.stop();
+      await firstStart;
+
+      expect(calls).toEqual([{ source: 'test' }]);
+      const nextRun = firstLoop.getGoal('recorder')!.schedule!.nextRun;
+
+      const secondLoop = new GoalLoop({
+        tickInterval: 50,
+        enableLogging: false,
+        enablePersistence: true,
+        storePath,
+      });
+      secondLoop.registerAction('record', async (params) => {
+        calls.push(params);
+        return { success: true };
+      });
+
+      const secondStart = secondLoop.start();
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const restored = secondLoop.getGoal('recorder');
+      expect(restored).toBeDefined();
+      expect(restored?.schedule?.runsCompleted).toBe(1);
+      expect(restored?.schedule?.nextRun.getTime()).toBe(nextRun.getTime());
+      expect(restored?.lastRun).toBeInstanceOf(Date);
+
+      // Next run is an hour away, so it must not fire again
+      expect(calls).toHaveLength(1);
+
+      await secondLoop.stop();
+      await secondStart;
+    });
+
+    it('should merge stored state into goals re-added with the same id', async () => {
+      const store = new JsonFileGoalStore(storePath);
+      await store.save([{
+        id: 'daily-learning',
+        type: 'learn',
+        description: 'Daily learning',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: {
+          nextRun: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          interval: 24 * 60 * 60 * 1000,
+          runsCompleted: 7,
+        },
+        createdAt: new Date('2026-02-01T00:00:00.000Z').toISOString(),
+        enabled: true,
+        retries: 2,
+      }]);
+
+      let executed = false;
+      const loop = new GoalLoop({
+        tickInterval: 50,
+        enableLogging: false,
+        enablePersistence: true,
+        store,
+      });
+
+      loop.addGoal({
+        ...createTimeBasedGoal(
+          'Daily learning',
+          async () => {
+            executed = true;
+            return { success: true };
+          },
+          { type: 'learn', interval: 24 * 60 * 60 * 1000, startDelay: 0 }
+        ),
+        id: 'daily-learning',
+      });
+
+      const startPromise = loop.start();
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const goal = loop.getGoal('daily-learning');
+      expect(executed).toBe(false);
+      expect(goal?.schedule?.runsCompleted).toBe(7);
+      expect(goal?.retries).toBe(2);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should keep the retry limit of rehydrated goals', async () => {
+      const store = new JsonFileGoalStore(storePath);
+      await store.save([{
+        id: 'limited',
+        type: 'monitor',
+        description: 'Limited retries',
+        priority: 'normal',
+        trigger: 'event',
+        actionName: 'noop',
+        createdAt: new Date().toISOString(),
+        enabled: true,
+        maxRetries: 2,
+        retries: 1,
+      }]);
+
+      const loop = new GoalLoop({ enableLogging: false, enablePersistence: true, store });
+      loop.registerAction('noop', async () => ({ success: true }));
+      const startPromise = loop.start();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const restored = loop.getGoal('limited');
+      expect(restored?.maxRetries).toBe(2);
+      expect(restored?.retries).toBe(1);
+      expect(serializeGoal(restored!).maxRetries).toBe(2);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should skip stored goals whose action is not registered', async () => {
+      const store = new JsonFileGoalStore(storePath);
+      await store.save([{
+        id: 'orphan',
+        type: 'monitor',
+        description: 'Orphaned goal',
+        priority: 'low',
+        trigger: 'time',
+        actionName: 'missing',
+        createdAt: new Date().toISOString(),
+        enabled: true,
+      }]);
+
+      const loop = new GoalLoop({ enableLogging: false, enablePersistence: true, store });
+      const startPromise = loop.start();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(loop.getGoal('orphan')).toBeUndefined();
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should start when stored goals fail to restore, and keep them stored', async () => {
+      const store = new JsonFileGoalStore(storePath);
+      await store.save([
+        {
+          id: 'unknown-condition',
+          type: 'monitor',
+          description: 'Condition no longer registered',
+          priority: 'normal',
+          trigger: 'condition',
+          actionName: 'noop',
+          conditionName: 'missing',
+          createdAt: new Date().toISOString(),
+          enabled: true,
+        },
+        {
+          id: 'inline',
+          type: 'monitor',
+          description: 'Inline action, not re-added yet',
+          priority: 'normal',
+          trigger: 'event',
+          createdAt: new Date().toISOString(),
+          enabled: true,
+        },
+      ]);
+
+      const loop = new GoalLoop({ enableLogging: false, enablePersistence: true, store });
+      loop.registerAction('noop', async () => ({ success: true }));
+      const errors: Error[] = [];
+      loop.on('storeError', error => errors.push(error));
+
+      const startPromise = loop.start();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(loop.getStatus().running).toBe(true);
+      expect(errors.map(error => error.message)).toEqual(['Condition not registered: missing']);
+      expect(loop.getGoal('unknown-condition')).toBeUndefined();
+
+      loop.addGoal({
+        type: 'monitor',
+        description: 'Other goal',
+        priority: 'normal',
+        trigger: 'event',
+        action: async () => ({ success: true }),
+      });
+      await loop.stop();
+      await startPromise;
+
+      const stored = await store.load();
+      expect(stored.map(record => record.id)).toEqual(
+        expect.arrayContaining(['unknown-condition', 'inline'])
+      );
+      expect(stored).toHaveLength(3);
+    });
+
+    it('should reject named goals without a registered action', () => {
+      expect(() => goalLoop.addGoal({
+        type: 'monitor',
+        description: 'Unregistered',
+        priority: 'normal',
+        trigger: 'event',
+        actionName: 'nope',
+      })).toThrow('Action not registered: nope');
+    });
+  });
+
+  describe('Goals File', () => {
+    let tempDir: string;
+    let goalsFile: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'goal-loop-test-'));
+      goalsFile = path.join(tempDir, 'goals.yaml');
+    });
+
+    afterEach(async () => {
+      try {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
+      }
+    });
+
+    const createLoop = (watchGoalsFile = false) => {
+      const loop = new GoalLoop({ tickInterval: 50, enableLogging: false, goalsFile, watchGoalsFile });
+      loop.registerAction('check-email', async () => ({ success: true }));
+      loop.registerAction('reconcile', async () => ({ success: true }));
+      return loop;
+    };
+
+    it('should load goals on start and report invalid entries', async () => {
+      await fs.writeFile(goalsFile, `
+goals:
+  - id: email-monitor
+    description: Monitor email
+    priority: high
+    trigger: time
+    action: check-email
+    schedule: { interval: 30m, startDelay: 1h }
+  - id: broken
+    description: Unknown handler
+    trigger: event
+    events: [kanban:updated]
+    action: deploy
+`);
+      const loop = createLoop();
+      const loaded: any[] = [];
+      loop.on('goalsFileLoaded', (result) => loaded.push(result));
+
+      const startPromise = loop.start();
+      await new Promise(resolve => loop.once('goalsFileLoaded', resolve));
+
+      expect(loop.getGoal('email-monitor')).toMatchObject({
+        priority: 'high',
+        actionName: 'check-email',
+        definitionFile: goalsFile,
+      });
+      expect(loaded[0].added).toEqual(['email-monitor']);
+      expect(loaded[0].errors).toEqual([
+        { index: 1, id: 'broken', errors: ['Action not registered: deploy'] },
+      ]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should apply additions, edits and removals when the file changes', async () => {
+      await fs.writeFile(goalsFile, `
+- id: email-monitor
+  description: Monitor email
+  trigger: time
+  action: check-email
+  schedule: { interval: 30m, startDelay: 1h }
+- id: reconcile
+  description: Reconcile Kanban tasks
+  trigger: event
+  events: [kanban:updated]
+  action: reconcile
+`);
+      const loop = createLoop(true);
+      const startPromise = loop.start();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const nextRun = loop.getGoal('email-monitor')!.schedule!.nextRun;
+      const reloaded = new Promise<any>(resolve => loop.once('goalsFileLoaded', resolve));
+
+      await fs.writeFile(goalsFile, `
+- id: email-monitor
+  description: Monitor email (work inbox)
+  priority: critical
+  trigger: time
+  action: check-email
+  schedule: { interval: 30m, startDelay: 1h }
+- id: nightly-reconcile
+  description: Reconcile Kanban tasks nightly
+  trigger: time
+  action: reconcile
+  schedule: { cron: '0 2 * * *' }
+`);
+      const result = await reloaded;
+
+      expect(result).toMatchObject({
+        added: ['nightly-reconcile'],
+        updated: ['email-monitor'],
+        removed: ['reconcile'],
+        errors: [],
+      });
+      const edited = loop.getGoal('email-monitor')!;
+      expect(edited.priority).toBe('critical');
+      expect(edited.schedule!.nextRun).toEqual(nextRun); // timing unchanged
+      expect(loop.getGoal('reconcile')).toBeUndefined();
+
+      // An entry that turns invalid keeps its last valid version
+      const rejected = new Promise<any>(resolve => loop.once('goalsFileLoaded', resolve));
+      await fs.writeFile(goalsFile, `
+- id: email-monitor
+  description: Monitor email
+  trigger: time
+  action: check-email
+  schedule: { interval: often }
+- id: nightly-reconcile
+  description: Reconcile Kanban tasks nightly
+  trigger: time
+  action: reconcile
+  schedule: { cron: '0 2 * * *' }
+`);
+      expect((await rejected).errors[0].id).toBe('email-monitor');
+      expect(loop.getGoal('email-monitor')?.priority).toBe('critical');
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should keep the outcome of a run in flight during a reload', async () => {
+      await fs.writeFile(goalsFile, `
+- id: email-monitor
+  description: Monitor email
+  trigger: time
+  action: slow-check
+  schedule: { interval: 1h }
+`);
+      let finish!: () => void;
+      const loop = createLoop();
+      loop.registerAction('slow-check', () => new Promise(resolve => {
+        finish = () => resolve({ success: true });
+      }));
+
+      const startPromise = loop.start();
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const goal = loop.getGoal('email-monitor')!;
+      expect(loop.getGoalStatus('email-monitor')?.executing).toBe(true);
+
+      await fs.writeFile(goalsFile, `
+- id: email-monitor
+  description: Monitor email (work inbox)
+  trigger: time
+  action: slow-check
+  schedule: { interval: 1h }
+`);
+      expect((await loop.reloadGoalsFile()).updated).toEqual(['email-monitor']);
+
+      finish();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(loop.getGoal('email-monitor')).toBe(goal);
+      expect(goal).toMatchObject({ description: 'Monitor email (work inbox)', lastOutcome: 'success' });
+      expect(goal.schedule?.runsCompleted).toBe(1);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should leave goals untouched when the file cannot be parsed', async () => {
+      await fs.writeFile(goalsFile, `
+- id: email-monitor
+  description: Monitor email
+  trigger: time
+  action: check-email
+  schedule: { interval: 30m, startDelay: 1h }
+`);
+      const loop = createLoop();
+      const startPromise = loop.start();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      await fs.writeFile(goalsFile, '- id: [unclosed');
+      const result = await loop.reloadGoalsFile();
+
+      expect(result.error).toBeDefined();
+      expect(loop.getGoal('email-monitor')).toBeDefined();
+
+      await loop.stop();
+      await startPromise;
+    });
+  });
+
+  describe('Audit Log', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'goal-loop-audit-test-'));
+    });
+
+    afterEach(async () => {
+      try {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      } catch {
+        // Ignore cleanup errors
+      }
+    });
+
+    it('should record each goal run with duration and outcome', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({
+        tickInterval: 1000,
+        enableLogging: true,
+        logPath: path.join(tempDir, 'autonomous-actions.log'),
+        clock,
+      });
+
+      loop.addGoal({
+        id: 'backup',
+        type: 'optimize',
+        description: 'Backup',
+        priority: 'high',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now()), maxRuns: 1 },
+        action: () => new Promise<GoalResult>(resolve =>
+          clock.setTimeout(() => resolve({ success: true, message: 'Backed up' }), 5000)
+        ),
+      });
+      const failing = createEventBasedGoal('Sync', ['sync'], async () => {
+        throw new Error('Remote unavailable');
+      }, { id: 'sync' });
+      failing.maxRetries = 1;
+      loop.addGoal(failing);
+
+      const startPromise = loop.start();
+      loop.publish('sync');
+      await clock.advance(10000);
+      await loop.stop();
+      await startPromise;
+
+      const [backup] = await loop.readAuditLog({ goalId: 'backup' });
+      expect(backup).toMatchObject({
+        source: 'goal-loop',
+        type: 'optimize',
+        priority: 'high',
+        trigger: 'time',
+        durationMs: 5000,
+        outcome: 'success',
+        message: 'Backed up',
+      });
+
+      const failures = await loop.readAuditLog({ outcome: 'failure' });
+      expect(failures).toHaveLength(1);
+      expect(failures[0]).toMatchObject({ goalId: 'sync', error: 'Remote unavailable' });
+    });
+
+    it('should write the audit log only when logPath is set', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const quiet = new GoalLoop({
+        tickInterval: 1000,
+        enableLogging: false,
+        logPath: path.join(tempDir, 'autonomous-actions.log'),
+        clock,
+      });
+      const unlogged = new GoalLoop({ tickInterval: 1000, enableLogging: true, clock });
+
+      for (const loop of [quiet, unlogged]) {
+        loop.addGoal({
+          id: 'sweep',
+          type: 'optimize',
+          description: 'Sweep temp files',
+          priority: 'low',
+          trigger: 'time',
+          schedule: { nextRun: new Date(clock.now()), maxRuns: 1 },
+          action: async () => ({ success: true }),
+        });
+        const startPromise = loop.start();
+        await clock.advance(1000);
+        await loop.stop();
+        await startPromise;
+      }
+
+      expect(await quiet.readAuditLog()).toEqual([expect.objectContaining({ goalId: 'sweep', outcome: 'success' })]);
+      expect(await unlogged.readAuditLog()).toEqual([]);
+    });
+  });
+
+  describe('Virtual Clock', () => {
+    it('should run hourly goals when virtual time advances', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runTimes: string[] = [];
+
+      loop.addGoal({
+        type: 'monitor',
+        description: 'Hourly check',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now() + 60 * 60 * 1000), interval: 60 * 60 * 1000 },
+        action: async () => {
+          runTimes.push(new Date(clock.now()).toISOString());
+          return { success: true };
+        },
+      });
+
+      const startPromise = loop.start();
+      await clock.advance(3 * 60 * 60 * 1000);
+
+      expect(runTimes).toEqual([
+        '2026-02-10T01:00:00.000Z',
+        '2026-02-10T02:00:00.000Z',
+        '2026-02-10T03:00:00.000Z',
+      ]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should simulate a day of runs without executing actions', () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ enableLogging: false, clock });
+      let executed = false;
+      const action = async () => {
+        executed = true;
+        return { success: true };
+      };
+
+      loop.addGoal({
+        id: 'six-hourly',
+        type: 'monitor',
+        description: 'Every 6 hours',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now()), interval: 6 * 60 * 60 * 1000 },
+        action,
+      });
+      loop.addGoal({
+        id: 'daily',
+        type: 'learn',
+        description: 'Daily 3 AM',
+        priority: 'high',
+        trigger: 'time',
+        schedule: { nextRun: new Date('2026-02-10T03:00:00.000Z'), cron: '0 3 * * *', timezone: 'UTC' },
+        action,
+      });
+      loop.addGoal({
+        id: 'limited',
+        type: 'learn',
+        description: 'Two runs left',
+        priority: 'low',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now()), interval: 60 * 60 * 1000, maxRuns: 3, runsCompleted: 1 },
+        action,
+      });
+      loop.addGoal(createConditionBasedGoal('Unpredictable', () => true, action));
+
+      const runs = loop.simulate(24 * 60 * 60 * 1000);
+
+      expect(runs.map(run => `${run.goalId}@${run.at.toISOString().slice(11, 16)}`)).toEqual([
+        'six-hourly@00:00',
+        'limited@00:00',
+        'limited@01:00',
+        'daily@03:00',
+        'six-hourly@06:00',
+        'six-hourly@12:00',
+        'six-hourly@18:00',
+        'six-hourly@00:00',
+      ]);
+      expect(executed).toBe(false);
+    });
+  });
+
+  describe('Pause, Resume and Drain', () => {
+    const MINUTE = 60 * 1000;
+
+    const minutelyGoal = (clock: VirtualClock, id: string, type: GoalType, runs: string[]) => ({
+      id,
+      type,
+      description: id,
+      priority: 'normal' as const,
+      trigger: 'time' as const,
+      schedule: { nextRun: new Date(clock.now()), interval: MINUTE },
+      action: async () => {
+        runs.push(id);
+        return { success: true };
+      },
+    });
+
+    it('should hold due goals while paused and run them on resume', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runs: string[] = [];
+
+      loop.addGoal(minutelyGoal(clock, 'email', 'monitor', runs));
+      loop.pause();
+
+      const startPromise = loop.start();
+      await clock.advance(5 * MINUTE);
+
+      expect(runs).toEqual([]);
+      expect(loop.getStatus().mode).toBe('paused');
+      expect(loop.getGoalStatus('email')?.paused).toBe(true);
+
+      // Overdue by more than the grace window: coalesced into one run
+      loop.resume();
+      await clock.advance(0);
+
+      expect(runs).toEqual(['email']);
+      expect(loop.getStatus().mode).toBe('running');
+
+      await loop.stop();
+      await startPromise;
+      expect(loop.getStatus().mode).toBe('stopped');
+    });
+
+    it('should pause and resume goal types', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runs: string[] = [];
+
+      loop.addGoal(minutelyGoal(clock, 'email', 'monitor', runs));
+      loop.addGoal(minutelyGoal(clock, 'notify', 'communicate', runs));
+      loop.pauseTypes('communicate');
+
+      const startPromise = loop.start();
+      await clock.advance(30 * 1000);
+
+      expect(runs).toEqual(['email']);
+      expect(loop.getStatus().pausedTypes).toEqual(['communicate']);
+
+      loop.resumeTypes('communicate');
+      await clock.advance(0);
+
+      expect(runs).toEqual(['email', 'notify']);
+      expect(loop.getStatus().pausedTypes).toEqual([]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should finish in-flight goals and accept no new work while draining', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runs: string[] = [];
+      let finished = false;
+
+      loop.addGoal({
+        id: 'long-task',
+        type: 'research',
+        description: 'Long task',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now()), interval: MINUTE },
+        action: async () => {
+          await new Promise<void>(resolve => clock.setTimeout(resolve, 10 * 1000));
+          finished = true;
+          return { success: true };
+        },
+      });
+      loop.addGoal(createEventBasedGoal('Follow up', ['research:done'], async () => {
+        runs.push('follow-up');
+        return { success: true };
+      }, { id: 'follow-up' }));
+
+      const startPromise = loop.start();
+      await clock.advance(0);
+
+      const drained = loop.drain();
+      expect(loop.getStatus().mode).toBe('draining');
+      expect(loop.publish('research:done')).toEqual([]);
+      await expect(loop.triggerGoal('follow-up')).rejects.toThrow('GoalLoop is draining');
+
+      await clock.advance(10 * 1000);
+      await drained;
+
+      expect(finished).toBe(true);
+      expect(loop.getStatus().executingGoals).toBe(0);
+
+      // Due again at 00:01, but nothing starts until resume()
+      await clock.advance(2 * MINUTE);
+      expect(loop.getGoal('long-task')?.schedule?.runsCompleted).toBe(1);
+      expect(runs).toEqual([]);
+
+      await loop.stop();
+      await startPromise;
+    });
+  });
+
+  describe('Missed Runs', () => {
+    const HOUR = 60 * 60 * 1000;
+
+    // Hourly goal whose next run was due 3.5 hours ago
+    const overdueGoal = (
+      clock: VirtualClock,
+      id: string,
+      schedule: Partial<GoalSchedule>,
+      runs: string[]
+    ) => ({
+      id,
+      type: 'monitor' as const,
+      description: id,
+      priority: 'normal' as const,
+      trigger: 'time' as const,
+      schedule: { nextRun: new Date(clock.now() - 3.5 * HOUR), interval: HOUR, ...schedule },
+      action: async () => {
+        runs.push(id);
+        return { success: true };
+      },
+    });
+
+    it('should coalesce missed runs by default and report them', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T12:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runs: string[] = [];
+      const misfires: GoalMisfire[] = [];
+
+      loop.on('runsMissed', (misfire) => misfires.push(misfire));
+      loop.addGoal(overdueGoal(clock, 'email', {}, runs));
+
+      const startPromise = loop.start();
+      await clock.advance(10 * 1000);
+
+      expect(runs).toEqual(['email']);
+      expect(misfires).toHaveLength(1);
+      expect(misfires[0]).toMatchObject({ policy: 'coalesce', runs: 1 });
+      expect(misfires[0].missed.map(at => at.toISOString())).toEqual([
+        '2026-02-10T08:30:00.000Z',
+        '2026-02-10T09:30:00.000Z',
+        '2026-02-10T10:30:00.000Z',
+        '2026-02-10T11:30:00.000Z',
+      ]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should run every missed occurrence up to the cap', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T12:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runs: string[] = [];
+
+      loop.addGoal(overdueGoal(clock, 'backup', { misfirePolicy: 'run-all', maxCatchUpRuns: 3 }, runs));
+
+      const startPromise = loop.start();
+      await clock.advance(10 * 1000);
+
+      expect(runs).toEqual(['backup', 'backup', 'backup']);
+      const schedule = loop.getGoal('backup')!.schedule!;
+      expect(schedule.catchUpRuns).toBe(0);
+      expect(schedule.nextRun.getTime()).toBeGreaterThan(clock.now());
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should skip to the next future slot', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T12:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runs: string[] = [];
+      const misfires: GoalMisfire[] = [];
+
+      loop.on('runsMissed', (misfire) => misfires.push(misfire));
+      loop.addGoal(overdueGoal(clock, 'digest', { misfirePolicy: 'skip' }, runs));
+
+      const startPromise = loop.start();
+      await clock.advance(10 * 1000);
+
+      expect(runs).toEqual([]);
+      expect(misfires[0]).toMatchObject({ policy: 'skip', runs: 0 });
+      expect(misfires[0].nextRun?.toISOString()).toBe('2026-02-10T12:30:00.000Z');
+
+      await clock.advance(30 * 60 * 1000);
+      expect(runs).toEqual(['digest']);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should not count runs delayed by a busy slot as missed', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T12:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, maxConcurrentGoals: 1, enableLogging: false, clock });
+      const runs: string[] = [];
+      const misfires: GoalMisfire[] = [];
+
+      loop.on('runsMissed', (misfire) => misfires.push(misfire));
+      loop.addGoal({
+        ...overdueGoal(clock, 'backup', { nextRun: new Date(clock.now()), maxRuns: 1 }, runs),
+        priority: 'high',
+        action: async () => {
+          runs.push('backup');
+          await new Promise<void>(resolve => clock.setTimeout(resolve, 2 * HOUR));
+          return { success: true };
+        },
+      });
+      // Falls due while backup holds the only slot
+      loop.addGoal(overdueGoal(clock, 'email', { nextRun: new Date(clock.now() + 0.5 * HOUR) }, runs));
+
+      const startPromise = loop.start();
+      await clock.advance(2 * HOUR + 10 * 1000);
+
+      expect(runs).toEqual(['backup', 'email']);
+      expect(misfires).toEqual([]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should count runs that fell due while paused as missed', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T12:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runs: string[] = [];
+      const misfires: GoalMisfire[] = [];
+
+      loop.on('runsMissed', (misfire) => misfires.push(misfire));
+      loop.addGoal(overdueGoal(clock, 'email', { nextRun: new Date(clock.now() + 0.5 * HOUR) }, runs));
+
+      const startPromise = loop.start();
+      loop.pause();
+      await clock.advance(3 * HOUR);
+      loop.resume();
+      await clock.advance(10 * 1000);
+
+      expect(runs).toEqual(['email']);
+      expect(misfires).toHaveLength(1);
+      expect(misfires[0].missed.map(at => at.toISOString())).toEqual([
+        '2026-02-10T12:30:00.000Z',
+        '2026-02-10T13:30:00.000Z',
+        '2026-02-10T14:30:00.000Z',
+      ]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should treat runs within the grace window as on time', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T12:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runs: string[] = [];
+      const misfires: GoalMisfire[] = [];
+
+      loop.on('runsMissed', (misfire) => misfires.push(misfire));
+      loop.addGoal(overdueGoal(clock, 'report', { misfirePolicy: 'skip', misfireGraceTime: 4 * HOUR }, runs));
+
+      const startPromise = loop.start();
+      await clock.advance(10 * 1000);
+
+      expect(runs).toEqual(['report']);
+      expect(misfires).toEqual([]);
+
+      await loop.stop();
+      await startPromise;
+    });
+  });
+
+  describe('Adaptive Intervals', () => {
+    const MINUTE = 60 * 1000;
+
+    it('should lengthen the interval while unchanged and reset it after a change', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const start = clock.now();
+      const changes = [false, false, false, false, true, false];
+      const runs: number[] = [];
+      const adjustments: number[] = [];
+
+      loop.on('intervalAdjusted', ({ interval }) => adjustments.push(interval / MINUTE));
+      loop.addGoal({
+        id: 'git-monitor',
+        type: 'monitor',
+        description: 'Check for uncommitted changes',
+        priority: 'low',
+        trigger: 'time',
+        schedule: { nextRun: new Date(start), interval: MINUTE, adaptive: { maxInterval: 8 * MINUTE } },
+        action: async () => {
+          runs.push((clock.now() - start) / MINUTE);
+          return { success: true, changed: changes.shift() ?? false };
+        },
+      });
+
+      const startPromise = loop.start();
+      await clock.advance(25.5 * MINUTE);
+
+      expect(runs).toEqual([0, 2, 6, 14, 22, 23, 25]);
+      expect(adjustments).toEqual([2, 4, 8, 1, 2, 4]);
+      expect(loop.getGoal('git-monitor')!.schedule!.currentInterval).toBe(4 * MINUTE);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should honour nextRunAt and delayMs overrides from the result', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const start = clock.now();
+      const results: GoalResult[] = [
+        { success: true, delayMs: 5 * MINUTE },
+        { success: true, nextRunAt: new Date(start + 20 * MINUTE) },
+        { success: true },
+      ];
+      const runs: number[] = [];
+
+      loop.addGoal({
+        id: 'rate-limited',
+        type: 'monitor',
+        description: 'Poll an API that sets its own retry-after',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(start), interval: 60 * MINUTE },
+        action: async () => {
+          runs.push((clock.now() - start) / MINUTE);
+          return results.shift()!;
+        },
+      });
+
+      const startPromise = loop.start();
+      await clock.advance(30 * MINUTE);
+
+      expect(runs).toEqual([0, 5, 20]);
+      expect(loop.getGoal('rate-limited')!.schedule!.nextRun.getTime()).toBe(start + 80 * MINUTE);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should reject adaptive schedules without a usable interval', () => {
+      expect(() => goalLoop.addGoal(createTimeBasedGoal('Bad', async () => ({ success: true }), {
+        interval: 10 * MINUTE,
+        adaptive: { maxInterval: 5 * MINUTE },
+      }))).toThrow('Adaptive schedules require an interval');
+    });
+  });
+
+  describe('Deadlines and SLA', () => {
+    const MINUTE = 60 * 1000;
+
+    it('should raise priority stepwise as the deadline nears', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T12:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const escalations: GoalPriority[] = [];
+
+      loop.on('goalEscalated', ({ priority }) => escalations.push(priority));
+      loop.addGoal({
+        ...createEventBasedGoal('Publish quarterly report', ['report:ready'], async () => ({ success: true }), {
+          id: 'report',
+          priority: 'low',
+        }),
+        deadline: { at: new Date(clock.now() + 120 * MINUTE) },
+      });
+
+      const startPromise = loop.start();
+      let status = loop.getGoalStatus('report')!;
+      expect(status.timeToDeadline).toBe(120 * MINUTE);
+      expect(status.escalatedPriority).toBeUndefined();
+      expect(status.effectivePriority).toBe(1);
+
+      await clock.advance(61 * MINUTE);
+      status = loop.getGoalStatus('report')!;
+      expect(status.escalatedPriority).toBe('high');
+      expect(status.effectivePriority).toBe(3);
+
+      await clock.advance(45 * MINUTE);
+      status = loop.getGoalStatus('report')!;
+      expect(status.escalatedPriority).toBe('critical');
+      expect(status.timeToDeadline).toBe(14 * MINUTE);
+      expect(escalations).toEqual(['high', 'critical']);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should breach a missed deadline and run the fallback goals', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T12:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const breaches: GoalSlaBreach[] = [];
+      const fallbackEvents: any[] = [];
+
+      loop.on('slaBreached', (breach) => breaches.push(breach));
+      loop.addGoal(createEventBasedGoal('Page on-call', ['oncall:page'], async ({ event }) => {
+        fallbackEvents.push(event);
+        return { success: true };
+      }, { id: 'page-oncall', type: 'communicate' }));
+      loop.addGoal({
+        ...createEventBasedGoal('Reconcile invoices', ['billing:closed'], async () => ({ success: true }), {
+          id: 'invoices',
+        }),
+        deadline: { at: new Date(clock.now() + 30 * MINUTE) },
+        escalation: { fallbackGoals: ['page-oncall'] },
+      });
+
+      const startPromise = loop.start();
+      await clock.advance(31 * MINUTE);
+
+      expect(breaches).toHaveLength(1);
+      expect(breaches[0]).toMatchObject({ reason: 'missed', deadline: new Date('2026-02-10T12:30:00.000Z') });
+      expect(fallbackEvents).toHaveLength(1);
+      expect(fallbackEvents[0]).toMatchObject({
+        name: 'slaBreached',
+        payload: { goalId: 'invoices', reason: 'missed' },
+      });
+      expect(loop.getGoal('invoices')!.deadline).toBeUndefined();
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should renew a met deadline and breach on a failure near it', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T12:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const met: string[] = [];
+      const breaches: GoalSlaBreach[] = [];
+
+      loop.on('deadlineMet', ({ goal }) => met.push(goal.id));
+      loop.on('slaBreached', (breach) => breaches.push(breach));
+      loop.addGoal({
+        id: 'backup',
+        type: 'optimize',
+        description: 'Nightly backup',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now() + MINUTE), interval: 24 * 60 * MINUTE },
+        deadline: { at: new Date(clock.now() + 10 * MINUTE), every: 24 * 60 * MINUTE },
+        action: async () => ({ success: true }),
+      });
+      loop.addGoal({
+        id: 'sync',
+        type: 'monitor',
+        description: 'Sync ledger',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now() + MINUTE), interval: 24 * 60 * MINUTE },
+        deadline: { at: new Date(clock.now() + 10 * MINUTE) },
+        escalation: { breachWindow: 30 * MINUTE },
+        maxRetries: 0,
+        action: async () => ({ success: false, message: 'Ledger locked' }),
+      });
+
+      const startPromise = loop.start();
+      await clock.advance(2 * MINUTE);
+
+      expect(met).toEqual(['backup']);
+      expect(loop.getGoal('backup')!.deadline?.at.toISOString()).toBe('2026-02-11T12:10:00.000Z');
+      expect(breaches).toHaveLength(1);
+      expect(breaches[0]).toMatchObject({ reason: 'failed', error: 'Ledger locked' });
+      expect(breaches[0].goal.id).toBe('sync');
+
+      await loop.stop();
+      await startPromise;
+    });
+  });
+
+  describe('Scheduler', () => {
+    it('should poll conditions on their own interval', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      let checks = 0;
+
+      loop.addGoal(createConditionBasedGoal(
+        'Every 10 minutes',
+        () => {
+          checks++;
+          return false;
+        },
+        async () => ({ success: true }),
+        { pollInterval: 10 * 60 * 1000 }
+      ));
+
+      const startPromise = loop.start();
+      await clock.advance(60 * 60 * 1000);
+
+      // t = 0, 10, 20, ... 60 minutes
+      expect(checks).toBe(7);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should wake immediately when a due goal is added', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const runTimes: number[] = [];
+
+      const startPromise = loop.start();
+      await clock.advance(0);
+
+      loop.addGoal({
+        type: 'monitor',
+        description: 'Added while idle',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now()) },
+        action: async () => {
+          runTimes.push(clock.now());
+          return { success: true };
+        },
+      });
+      await clock.advance(0);
+
+      expect(runTimes).toEqual([new Date('2026-02-10T00:00:00.000Z').getTime()]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should wake immediately when an event is published', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      let runs = 0;
+
+      loop.addGoal(createEventBasedGoal('On deploy', ['deploy'], async () => {
+        runs++;
+        return { success: true };
+      }));
+
+      const startPromise = loop.start();
+      await clock.advance(0);
+
+      loop.publish('deploy');
+      await clock.advance(0);
+
+      expect(runs).toBe(1);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should start completion goals as soon as their dependency finishes', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      const order: string[] = [];
+
+      loop.addGoal({
+        id: 'fetch',
+        type: 'research',
+        description: 'Fetch',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now() + 5 * 60 * 1000), maxRuns: 1 },
+        action: async () => {
+          order.push(`fetch@${clock.now()}`);
+          return { success: true };
+        },
+      });
+      loop.addGoal(createCompletionBasedGoal('Summarize', ['fetch'], async () => {
+        order.push(`summarize@${clock.now()}`);
+        return { success: true };
+      }));
+
+      const startPromise = loop.start();
+      await clock.advance(10 * 60 * 1000);
+
+      const at = new Date('2026-02-10T00:05:00.000Z').getTime();
+      expect(order).toEqual([`fetch@${at}`, `summarize@${at}`]);
+
+      await loop.stop();
+      await startPromise;
+    });
+  });
+
+  describe('Goal Explanations', () => {
+    const HOUR = 60 * 60 * 1000;
+
+    const timeGoal = (clock: VirtualClock, id: string, overrides: Record<string, any> = {}) => ({
+      id,
+      type: 'monitor' as const,
+      description: id,
+      priority: 'normal' as const,
+      trigger: 'time' as const,
+      schedule: { nextRun: new Date(clock.now()), interval: 24 * HOUR },
+      action: async () => ({ success: true }),
+      ...overrides,
+    });
+
+    it('should explain schedules, dependencies and disabled goals', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T02:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+
+      loop.addGoal(timeGoal(clock, 'nightly', {
+        schedule: { nextRun: new Date('2026-02-10T03:00:00.000Z'), interval: 24 * HOUR, maxRuns: 1 },
+      }));
+      loop.addGoal(createCompletionBasedGoal('Summarize nightly run', ['nightly'], async () => ({ success: true }), {
+        id: 'summary',
+      }));
+
+      expect(loop.explainGoal('nightly')).toMatchObject({
+        trigger: 'time',
+        dueIn: HOUR,
+        reasons: ['Loop is stopped', 'Next run at 2026-02-10T03:00:00.000Z'],
+      });
+      expect(loop.explainGoal('summary')!.blockedBy).toMatchObject([{ goalId: 'nightly', reason: 'not-run' }]);
+      expect(loop.explainGoal('missing')).toBeUndefined();
+
+      const startPromise = loop.start();
+      await clock.advance(HOUR + 1000);
+
+      expect(loop.explainGoal('nightly')).toMatchObject({
+        disabledReason: 'max-runs',
+        reasons: ['Disabled (max-runs)', 'Next run at 2026-02-11T03:00:00.000Z'],
+      });
+
+      loop.setGoalEnabled('summary', false);
+      expect(loop.explainGoal('summary')!.disabledReason).toBe('manual');
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should explain conditions, running goals and queue position', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, maxConcurrentGoals: 1, enableLogging: false, clock });
+
+      loop.addGoal(timeGoal(clock, 'slow', {
+        priority: 'high',
+        action: async () => {
+          await new Promise<void>(resolve => clock.setTimeout(resolve, HOUR));
+          return { success: true };
+        },
+      }));
+      loop.addGoal(timeGoal(clock, 'waiting'));
+      loop.addGoal(createConditionBasedGoal('Disk almost full', async () => false, async () => ({ success: true }), {
+        id: 'disk',
+      }));
+
+      const startPromise = loop.start();
+      await clock.advance(5000);
+
+      expect(loop.explainGoal('slow')!.reasons[0]).toBe('Running now');
+      expect(loop.explainGoal('waiting')).toMatchObject({
+        queuePosition: 1,
+        concurrencyLimit: { running: 1, max: 1 },
+        reasons: ['Due since 2026-02-10T00:00:00.000Z', 'Queued at position 1 of 1', 'All 1 slots are busy'],
+      });
+      expect(loop.explainGoal('disk')).toMatchObject({
+        lastCondition: { checkedAt: new Date('2026-02-10T00:00:00.000Z'), value: false, fired: false },
+        reasons: ['Condition is false'],
+      });
+
+      await loop.stop({ abortInFlight: true });
+      await startPromise;
+    });
+
+    it('should log why due goals did not run when debug logging is on', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T02:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: true, debugLogging: true, clock });
+      const logs: string[] = [];
+
+      loop.on('log', (entry: string) => logs.push(entry.trim()));
+      loop.addGoal(createEventBasedGoal('Mount backup disk', ['disk:attached'], async () => ({ success: true }), {
+        id: 'mount',
+      }));
+      loop.addGoal(timeGoal(clock, 'backup', {
+        schedule: { nextRun: new Date('2026-02-10T03:00:00.000Z'), interval: 24 * HOUR },
+        dependsOn: ['mount'],
+      }));
+
+      const startPromise = loop.start();
+      await clock.advance(2 * HOUR);
+
+      expect(logs.filter(entry => entry.includes('Goal not run: backup'))).toEqual([
+        '[2026-02-10T03:00:00.000Z] Goal not run: backup - ' +
+          'Waiting on dependency mount (not-run); Due since 2026-02-10T03:00:00.000Z',
+      ]);
+      expect(loop.getNotRunHistory('backup')).toEqual([{
+        at: new Date('2026-02-10T03:00:00.000Z'),
+        reasons: ['Waiting on dependency mount (not-run)', 'Due since 2026-02-10T03:00:00.000Z'],
+      }]);
+
+      await loop.stop();
+      await startPromise;
+    });
+
+    it('should record why due goals did not run while the loop is paused', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'goal-loop-audit-test-'));
+      const clock = new VirtualClock(new Date('2026-02-10T02:00:00.000Z'));
+      const loop = new GoalLoop({
+        tickInterval: 1000,
+        enableLogging: true,
+        debugLogging: true,
+        logPath: path.join(tempDir, 'autonomous-actions.log'),
+        clock,
+      });
+
+      try {
+        loop.addGoal(timeGoal(clock, 'backup', {
+          schedule: { nextRun: new Date('2026-02-10T03:00:00.000Z'), interval: 24 * HOUR },
+        }));
+        loop.pause();
+
+        const startPromise = loop.start();
+        await clock.advance(2 * HOUR);
+        await loop.stop();
+        await startPromise;
+
+        const [notRun] = loop.getNotRunHistory('backup');
+        expect(notRun.reasons).toEqual(['Loop is paused', 'Due since 2026-02-10T03:00:00.000Z']);
+        expect(loop.getGoalHistory('backup')).toEqual([]);
+        expect(await loop.readAuditLog({ outcome: 'not-run' })).toEqual([expect.objectContaining({
+          goalId: 'backup',
+          message: 'Loop is paused; Due since 2026-02-10T03:00:00.000Z',
+        })]);
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
     });
   });
 
@@ -458,5 +3209,84 @@ describe('GoalLoop', () => {
       expect(status.totalGoals).toBe(2);
       expect(status.enabledGoals).toBe(1);
     });
+
+    it('should report per-goal statistics and loop-wide run aggregates', async () => {
+      const clock = new VirtualClock(new Date('2026-02-10T00:00:00.000Z'));
+      const loop = new GoalLoop({ tickInterval: 1000, enableLogging: false, clock });
+      let attempt = 0;
+
+      loop.addGoal({
+        id: 'flaky',
+        type: 'monitor',
+        description: 'Fails every other run',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now()), interval: 60000, maxRuns: 10 },
+        action: async () => {
+          attempt++;
+          await new Promise<void>(resolve => clock.setTimeout(resolve, attempt * 100));
+          if (attempt % 2 === 0) throw new Error(`Attempt ${attempt} failed`);
+          return { success: true };
+        },
+      });
+      loop.addGoal({
+        id: 'steady',
+        type: 'monitor',
+        description: 'Always succeeds',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(clock.now()), interval: 60000 },
+        action: async () => ({ success: true }),
+      });
+
+      const startPromise = loop.start();
+      // Failed runs retry a tick later, successes wait an interval
+      await clock.advance(3 * 60 * 1000 + 30000);
+      await loop.stop();
+      await startPromise;
+
+      const stats = loop.getGoalStats('flaky')!;
+      expect(stats.totalRuns).toBe(attempt);
+      expect(stats.successRate).toBeGreaterThan(0);
+      expect(stats.successRate).toBeLessThan(1);
+      expect(stats.p95Duration).toBe(attempt * 100);
+      expect(loop.getGoalHistory('flaky')).toHaveLength(attempt);
+      expect(loop.getGoalStats('steady')?.consecutiveFailures).toBe(0);
+      expect(loop.getGoalStats('missing')).toBeUndefined();
+
+      const { runStats } = loop.getStatus();
+      expect(runStats.totalRuns).toBe(attempt + loop.getGoalStats('steady')!.totalRuns);
+      expect(runStats.flakyGoals).toEqual(['flaky']);
+    });
+
+    it('should not record runs of goals removed while running', async () => {
+      const loop = new GoalLoop({ tickInterval: 50, enableLogging: false });
+      let finish!: () => void;
+      let markStarted!: () => void;
+      const started = new Promise<void>(resolve => { markStarted = resolve; });
+
+      loop.addGoal({
+        id: 'removed',
+        type: 'monitor',
+        description: 'Removed mid-run',
+        priority: 'normal',
+        trigger: 'time',
+        schedule: { nextRun: new Date(), interval: 60000 },
+        action: () => new Promise(resolve => {
+          finish = () => resolve({ success: true });
+          markStarted();
+        }),
+      });
+
+      const startPromise = loop.start();
+      await started;
+      loop.removeGoal('removed');
+      finish();
+      await loop.stop();
+      await startPromise;
+
+      expect(loop.getStatus().runStats.totalRuns).toBe(0);
+      expect(loop.getGoalHistory('removed')).toEqual([]);
+    });
   });
 });
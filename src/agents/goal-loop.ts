@@ -10,16 +10,94 @@
  */
 
 import { EventEmitter } from 'node:events';
+import {
+  createApproval,
+  isApprovalExpired,
+  isAwaitingApproval,
+  requiresApproval,
+  type GoalApproval,
+  type GoalApprovalPolicy,
+} from './goal-approval.js';
+import {
+  AuditLog,
+  type AuditEntry,
+  type AuditLogOptions,
+  type AuditOutcome,
+  type AuditQuery,
+} from './goal-audit.js';
+import { systemClock, type Clock, type ClockTimer } from './goal-clock.js';
+import { isValidTimezone, nextCronOccurrence, parseCron } from './goal-cron.js';
+import {
+  findDependencyCycle,
+  getDependencyBlockers,
+  normalizeDependencies,
+  type DependencyBlocker,
+  type GoalDependency,
+  type GoalDependencyNode,
+  type GoalOutcome,
+} from './goal-dependencies.js';
+import {
+  findRemovedGoals,
+  loadGoalFile,
+  mergeReloadedGoal,
+  watchGoalFile,
+  type GoalFileParseResult,
+  type GoalFileReloadResult,
+} from './goal-definitions.js';
+import { GoalHistory, type GoalNotRunRecord, type GoalRunRecord, type GoalStats } from './goal-history.js';
+import { GoalLockTable, getLockKeys } from './goal-locks.js';
+import { applyMisfirePolicy, isMisfire, type GoalMisfirePolicy } from './goal-misfire.js';
+import { runWorkerTask, type GoalWorkerTask } from './goal-worker.js';
+import type { ParallelOrchestrator } from './parallel-orchestrator.js';
+import { matchesSubscription, type GoalEvent, type GoalEventSubscription } from './goal-events.js';
+import { JsonFileGoalStore, serializeGoal, type GoalStore, type StoredGoal } from './goal-store.js';
+import {
+  getGoalProgress,
+  getGoalTree,
+  getTreeOutcome,
+  type GoalChildPolicy,
+  type GoalProgress,
+  type GoalTreeNode,
+} from './goal-subgoals.js';
+import { MinHeap } from './min-heap.js';
 
 export type GoalType = 'learn' | 'monitor' | 'optimize' | 'research' | 'communicate';
-export type GoalTrigger = 'time' | 'event' | 'condition';
+export type GoalTrigger = 'time' | 'event' | 'condition' | 'completion';
+
+/**
+ * Dispatch mode: 'paused' starts no runs, 'draining' lets in-flight runs
+ * finish and accepts no new work
+ */
+export type GoalLoopMode = 'running' | 'paused' | 'draining' | 'stopped';
 export type GoalPriority = 'critical' | 'high' | 'normal' | 'low';
+export type GoalConditionMode = 'level' | 'rising-edge';
 
 export interface GoalSchedule {
   nextRun: Date;
   interval?: number; // milliseconds
+  cron?: string; // e.g. '0 3 * * *' (takes precedence over interval)
+  timezone?: string; // IANA name for cron, e.g. 'Asia/Singapore' (default: local)
   maxRuns?: number;
   runsCompleted?: number;
+  
+  // Runs found overdue by more than the grace window (downtime, sleep)
+  misfirePolicy?: GoalMisfirePolicy; // default: 'coalesce'
+  misfireGraceTime?: number; // milliseconds late still counted as on time (default: 60s)
+  maxCatchUpRuns?: number; // cap for 'run-all' (default: 10)
+  catchUpRuns?: number; // catch-up runs still owed (maintained by the loop)
+  
+  // Poll less often while results are unchanged (interval schedules)
+  adaptive?: GoalAdaptiveInterval;
+  currentInterval?: number; // adapted interval in milliseconds (maintained by the loop)
+}
+
+/**
+ * Adaptive interval: each unchanged result (`changed: false`) multiplies
+ * the interval by `factor` up to `maxInterval`; a change resets it to `interval`
+ */
+export interface GoalAdaptiveInterval {
+  maxInterval: number; // milliseconds
+  factor?: number; // default: 2
 }
 
 export interface Goal {
@@ -31,9 +109,28 @@ export interface Goal {
   
   // Condition-based trigger
   condition?: () => boolean | Promise<boolean>;
+  pollInterval?: number; // milliseconds between condition checks (default: tickInterval)
+  conditionMode?: GoalConditionMode; // 'level' fires while true (default), 'rising-edge' once per false -> true
+  debounce?: number; // milliseconds the condition must stay true before firing
+  cooldown?: number; // minimum milliseconds between condition-triggered runs
+  conditionState?: GoalConditionState; // last observed value (maintained by the loop)
+  
+  // Dependencies (plain ids require success); gate every trigger type
+  dependsOn?: Array<string | GoalDependency>;
+  
+  // Event subscriptions (wake the goal on GoalLoop.publish)
+  events?: Array<string | GoalEventSubscription>;
   
   // Action to execute
-  action: () => Promise<GoalResult>;
+  action: (context: GoalRunContext) => Promise<GoalResult>;
+  
+  // Named handlers (registered on the loop, required for rehydration)
+  actionName?: string;
+  conditionName?: string;
+  params?: Record<string, any>;
+  
+  // Run on a ParallelOrchestrator worker instead of an action (needs config.orchestrator)
+  task?: GoalWorkerTask;
   
   // Time-based scheduling
   schedule?: GoalSchedule;
@@ -41,34 +138,334 @@ export interface Goal {
   // Metadata
   createdAt: Date;
   lastRun?: Date;
+  lastOutcome?: GoalOutcome;
+  lastCompletedAt?: Date; // set on success and failure alike
   enabled: boolean;
   
+  // Execution limit in milliseconds (timeouts count toward retries)
+  timeout?: number;
+  
+  // Locks held while running; goals sharing a key never overlap
+  // (beyond the key's limit in GoalLoopConfig.concurrencyLimits)
+  concurrencyKey?: string;
+  resources?: string[]; // e.g. ['kanban/tasks.json', 'git-workspace']
+  
   // Error handling
   onError?: (error: Error) => Promise<void>;
   maxRetries?: number;
   retries?: number;
+  retryPolicy?: Partial<GoalRetryPolicy> | false; // backoff after failures (false: retry on the next tick)
+  backoffUntil?: Date; // not retried before this time
+  deadLetter?: GoalDeadLetter; // set when disabled by exhausted retries
+  
+  // Human approval (overrides GoalLoopConfig.approvalPolicy when set)
+  requiresApproval?: boolean;
+  pendingApproval?: GoalApproval; // run waiting for approve()/reject()
+  
+  // Goals file the goal was loaded from (managed by reloadGoalsFile)
+  definitionFile?: string;
+  
+  // Must succeed by the deadline; priority rises as it nears
+  deadline?: GoalDeadline;
+  escalation?: GoalEscalation;
+  
+  // Sub-goals: children point at their parent, whose outcome follows childPolicy
+  parentId?: string;
+  childPolicy?: GoalChildPolicy; // default: 'all'
+  settledOutcome?: GoalOutcome; // sub-goal or goal tree finished (maintained by the loop)
+  settledAt?: Date;
+}
+
+export interface GoalDeadline {
+  at: Date; // a successful run must finish by then
+  every?: number; // milliseconds to the next deadline once met or breached (recurring goals)
+}
+
+/**
+ * How a goal reacts to an approaching or missed deadline
+ */
+export interface GoalEscalation {
+  // Raise the effective priority to at least `priority` within `before` ms of the deadline
+  steps?: Array<{ before: number; priority: GoalPriority }>;
+  breachWindow?: number; // a failure this close to the deadline breaches it early (default: 0)
+  fallbackGoals?: string[]; // goals run (with an `slaBreached` event) on breach
+}
+
+/**
+ * Payload of the `slaBreached` event
+ */
+export interface GoalSlaBreach {
+  goal: Goal;
+  deadline: Date;
+  reason: 'missed' | 'failed';
+  error?: string; // set for 'failed'
+}
+
+/**
+ * Exponential backoff applied after each failed run
+ */
+export interface GoalRetryPolicy {
+  initialDelay: number; // milliseconds before the first retry
+  multiplier: number; // delay growth per consecutive failure
+  maxDelay: number; // milliseconds
+  jitter: number; // 0-1, fraction of the delay randomized either way
+}
+
+export interface GoalConditionState {
+  value: boolean;
+  changedAt: Date; // when the value last flipped
+  lastFiredAt?: Date; // last condition-triggered run
+}
+
+export interface GoalDeadLetter {
+  error: string;
+  failedAt: Date;
+  retries: number;
+}
+
+/**
+ * Input accepted by addGoal. `id` may be supplied to keep a goal stable
+ * across restarts; `action` may be omitted when `actionName` is registered.
+ */
+export type GoalDefinition = Omit<Goal, 'id' | 'createdAt' | 'enabled' | 'action' | 'schedule'> & {
+  id?: string;
+  action?: Goal['action'];
+  schedule?: GoalScheduleDefinition;
+};
+
+/**
+ * Schedule as passed to addGoal()
+ *
+ * Without `nextRun`, the first run is `startDelay` after the loop's current
+ * time (for cron, the first occurrence from then).
+ */
+export type GoalScheduleDefinition = Omit<GoalSchedule, 'nextRun'> & {
+  nextRun?: Date;
+  startDelay?: number; // milliseconds
+};
+
+/**
+ * Per-run context passed to a goal's action
+ */
+export interface GoalRunContext {
+  event?: GoalEvent; // set when the run was queued by publish()
+  signal: AbortSignal; // aborted on timeout, cancelGoal() or stop({ abortInFlight })
+  spawn: (child: GoalDefinition) => string; // add a sub-goal of this goal, returns its id
+}
+
+/**
+ * Raised (as the abort reason) when a goal run exceeds its timeout
+ */
+export class GoalTimeoutError extends Error {
+  constructor(public readonly goalId: string, public readonly timeout: number) {
+    super(`Goal timed out after ${timeout}ms: ${goalId}`);
+    this.name = 'GoalTimeoutError';
+  }
+}
+
+/**
+ * Raised (as the abort reason) when a goal run is cancelled
+ */
+export class GoalCancelledError extends Error {
+  constructor(public readonly goalId: string, public readonly reason: string) {
+    super(`Goal cancelled (${reason}): ${goalId}`);
+    this.name = 'GoalCancelledError';
+  }
 }
 
+export type GoalActionHandler = (
+  params: Record<string, any>,
+  context: GoalRunContext
+) => Promise<GoalResult>;
+export type GoalConditionHandler = (params: Record<string, any>) => boolean | Promise<boolean>;
+
 export interface GoalResult {
   success: boolean;
   message?: string;
   data?: any;
   shouldReschedule?: boolean;
+  changed?: boolean; // whether anything changed since the last run (drives adaptive intervals)
+  nextRunAt?: Date; // run next at this time instead of the schedule
+  delayMs?: number; // run next after this delay instead of the schedule
 }
 
 export interface GoalLoopConfig {
-  tickInterval: number; // milliseconds between loop iterations
+  tickInterval: number; // default condition polling interval (milliseconds)
   maxConcurrentGoals: number;
   maxTotalGoals: number;
   enableLogging: boolean;
-  logPath?: string;
+  logPath?: string; // JSONL audit log of goal runs (default: none)
+  logRotation?: AuditLogOptions;
+  enablePersistence: boolean;
+  storePath?: string;
+  store?: GoalStore; // custom backend, overrides storePath
+  retryPolicy?: Partial<GoalRetryPolicy> | false; // default for goals without their own (false: no backoff)
+  clock?: Clock; // time source (default: system clock)
+  historySize: number; // runs kept per goal for getGoalStats()
+  priorityAging?: GoalPriorityAging; // off by default
+  concurrencyLimits?: Record<string, number>; // max holders per lock key (default: 1)
+  approvalPolicy?: GoalApprovalPolicy; // off by default
+  goalsFile?: string; // declarative goals (YAML or JSON), loaded on start
+  watchGoalsFile: boolean; // reload the goals file when it changes
+  debugLogging: boolean; // record (and log) why due goals did not run
+  orchestrator?: ParallelOrchestrator; // runs goals that have a `task`
+}
+
+/**
+ * Raise a waiting goal's effective priority by one level per `interval`
+ * it spends ready but not running (time goals count from `nextRun`)
+ */
+export interface GoalPriorityAging {
+  interval: number; // milliseconds per level
+  maxBoost?: number; // levels (default: up to critical)
+}
+
+/**
+ * Per-goal scheduling snapshot from GoalLoop.getGoalStatus()
+ */
+export interface GoalStatus {
+  id: string;
+  enabled: boolean;
+  executing: boolean;
+  priority: GoalPriority;
+  effectivePriority: number; // rank (low 1 ... critical 4) plus aging boost
+  waitingSince?: Date; // ready but not yet running since
+  waitingOnLocks?: string[]; // busy lock keys holding it back
+  awaitingApproval: boolean;
+  paused: boolean; // loop paused or draining, or goal type paused
+  nextRun?: Date;
+  deadline?: Date;
+  timeToDeadline?: number; // milliseconds
+  escalatedPriority?: GoalPriority; // raised by an approaching deadline
+}
+
+/**
+ * Why a goal is or is not running, from GoalLoop.explainGoal()
+ */
+export interface GoalExplanation {
+  id: string;
+  trigger: GoalTrigger;
+  now: Date;
+  executing: boolean;
+  nextRun?: Date;
+  dueIn?: number; // milliseconds until nextRun (negative when overdue)
+  lastCondition?: GoalConditionCheck;
+  pendingEvents: number;
+  disabledReason?: GoalDisabledReason;
+  paused: boolean; // loop paused or draining, or goal type paused
+  awaitingApproval: boolean;
+  backoffUntil?: Date;
+  concurrencyLimit?: { running: number; max: number }; // set when every slot is taken
+  waitingOnLocks?: string[];
+  blockedBy?: DependencyBlocker[];
+  subGoals?: GoalProgress; // set while the goal waits on open sub-goals
+  queuePosition?: number; // 1-based among ready goals waiting for a slot
+  reasons: string[]; // the above as readable sentences
+}
+
+export type GoalDisabledReason = 'manual' | 'max-runs' | 'max-retries';
+
+/**
+ * Last evaluation of a condition goal's condition
+ */
+export interface GoalConditionCheck {
+  checkedAt: Date;
+  value?: boolean; // unset when the check threw
+  fired: boolean; // passed debounce, cooldown and rising-edge checks
+  error?: string;
+}
+
+export const PRIORITY_RANK: Record<GoalPriority, number> = {
+  critical: 4,
+  high: 3,
+  normal: 2,
+  low: 1,
+};
+
+const DEFAULT_RETRY_POLICY: GoalRetryPolicy = {
+  initialDelay: 1000,
+  multiplier: 2,
+  maxDelay: 60 * 60 * 1000, // 1 hour
+  jitter: 0.1,
+};
+
+// Per-goal cap on queued event runs
+const MAX_PENDING_EVENTS = 100;
+
+// Per-goal cap on projected runs in simulate()
+const MAX_SIMULATED_RUNS = 1000;
+
+// Longest the loop sleeps without re-checking its schedule
+const MAX_IDLE_MS = 60 * 1000;
+
+const DEFAULT_ESCALATION_STEPS: NonNullable<GoalEscalation['steps']> = [
+  { before: 60 * 60 * 1000, priority: 'high' },
+  { before: 15 * 60 * 1000, priority: 'critical' },
+];
+
+// Longest single deadline timer (setTimeout overflows past ~24.8 days)
+const MAX_DEADLINE_TIMER_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_ADAPTIVE_FACTOR = 2;
+
+// Idle timer lateness taken as the host having been asleep
+const OVERSLEEP_MS = 5 * 1000;
+
+interface ScheduledWake {
+  goalId: string;
+  at: number; // epoch milliseconds
+  seq: number; // FIFO among equal times
+}
+
+/**
+ * A projected run from GoalLoop.simulate()
+ */
+export interface SimulatedRun {
+  goalId: string;
+  description: string;
+  type: GoalType;
+  priority: GoalPriority;
+  at: Date;
 }
 
 export class GoalLoop extends EventEmitter {
   private goals: Map<string, Goal> = new Map();
   private running = false;
+  private mode: Exclude<GoalLoopMode, 'stopped'> = 'running';
+  private pausedTypes: Set<GoalType> = new Set();
   private config: GoalLoopConfig;
-  private currentlyExecuting: Set<string> = new Set();
+  private currentlyExecuting: Map<string, AbortController> = new Map();
+  private inFlightRuns: Set<Promise<void>> = new Set();
+  private actionHandlers: Map<string, GoalActionHandler> = new Map();
+  private conditionHandlers: Map<string, GoalConditionHandler> = new Map();
+  private pendingEvents: Map<string, GoalEvent[]> = new Map();
+  private histories: Map<string, GoalHistory> = new Map();
+  private readySince: Map<string, number> = new Map();
+  private lockTable: GoalLockTable;
+  private approvalSkippedAt: Map<string, Date> = new Map();
+  private store?: GoalStore;
+  private audit?: AuditLog;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private unrestoredGoals: Map<string, StoredGoal> = new Map(); // kept in the store until re-added
+  private clock: Clock;
+  private wakeLoop?: () => void;
+  private idleUntil = Infinity;
+  // Earliest time each goal may be ready; heap entries not matching
+  // `wakeTimes` are stale and skipped
+  private wakeQueue = new MinHeap<ScheduledWake>((a, b) => a.at - b.at || a.seq - b.seq);
+  private wakeSeq = 0;
+  private wakeTimes: Map<string, number> = new Map();
+  private conditionCheckedAt: Map<string, number> = new Map();
+  private conditionChecks: Map<string, GoalConditionCheck> = new Map();
+  private debugReasons: Map<string, string> = new Map(); // last logged, to log changes only
+  private misfireCheckedAt: Map<string, number> = new Map(); // nextRun last checked for misfires
+  private tickingSince = 0; // when the loop last started, resumed or woke from a host sleep
+  private typeResumedAt: Map<GoalType, number> = new Map();
+  private deadlineTimers: Map<string, ClockTimer> = new Map();
+  private escalationLevels: Map<string, number> = new Map(); // escalation steps reached
+  private goalFileSignatures: Map<string, string> = new Map();
+  private pendingGoalsReload: Promise<unknown> = Promise.resolve();
+  private stopWatchingGoals?: () => void;
   
   constructor(config: Partial<GoalLoopConfig> = {}) {
     super();
@@ -77,8 +474,33 @@ export class GoalLoop extends EventEmitter {
       maxConcurrentGoals: config.maxConcurrentGoals ?? 5,
       maxTotalGoals: config.maxTotalGoals ?? 100,
       enableLogging: config.enableLogging ?? true,
-      logPath: config.logPath ?? 'memory/autonomous-actions.log',
+      logPath: config.logPath,
+      logRotation: config.logRotation ?? { maxBytes: 10 * 1024 * 1024, maxFiles: 5 },
+      enablePersistence: config.enablePersistence ?? false,
+      storePath: config.storePath ?? 'memory/goals.json',
+      store: config.store,
+      retryPolicy: config.retryPolicy,
+      clock: config.clock,
+      historySize: config.historySize ?? 50,
+      priorityAging: config.priorityAging,
+      concurrencyLimits: config.concurrencyLimits,
+      approvalPolicy: config.approvalPolicy,
+      goalsFile: config.goalsFile,
+      watchGoalsFile: config.watchGoalsFile ?? true,
+      debugLogging: config.debugLogging ?? false,
+      orchestrator: config.orchestrator,
     };
+
+    this.clock = this.config.clock ?? systemClock;
+    this.lockTable = new GoalLockTable(this.config.concurrencyLimits);
+
+    if (this.config.enablePersistence) {
+      this.store = this.config.store ?? new JsonFileGoalStore(this.config.storePath!);
+    }
+
+    if (this.config.logPath) {
+      this.audit = new AuditLog(this.config.logPath, this.config.logRotation);
+    }
   }
 
   /**
@@ -89,11 +511,21 @@ export class GoalLoop extends EventEmitter {
       throw new Error('GoalLoop is already running');
     }
 
+    this.tickingSince = this.clock.now();
+    await this.restoreGoals();
     this.running = true;
+    if (this.config.goalsFile) {
+      await this.reloadGoalsFile();
+      if (this.config.watchGoalsFile) this.watchGoalsFile();
+    }
+    this.rescheduleAll();
+    for (const goal of this.goals.values()) {
+      this.armDeadline(goal);
+    }
     this.emit('started');
     this.log('GoalLoop started');
 
-    // Main loop - runs continuously
+    // Main loop - sleeps until the next goal is due (or something wakes it)
     while (this.running) {
       try {
         await this.tick();
@@ -102,7 +534,8 @@ export class GoalLoop extends EventEmitter {
         console.error('GoalLoop tick error:', error);
       }
 
-      await this.sleep(this.config.tickInterval);
+      if (!this.running) break;
+      await this.idle(this.getIdleDuration());
     }
 
     this.emit('stopped');
@@ -111,225 +544,1867 @@ export class GoalLoop extends EventEmitter {
 
   /**
    * Stop the goal loop
+   *
+   * Waits for in-flight goals to finish. With `abortInFlight` they are
+   * signalled immediately; with `timeoutMs` any still running after the
+   * grace period are aborted and their slots released. The grace period is
+   * real time, whatever clock the loop runs on.
    */
-  async stop(): Promise<void> {
+  async stop(options: { timeoutMs?: number; abortInFlight?: boolean } = {}): Promise<void> {
     this.running = false;
-    
+    if (this.mode === 'draining') this.mode = 'running';
+    this.wakeLoop?.();
+    this.stopWatchingGoals?.();
+    this.stopWatchingGoals = undefined;
+    for (const timer of this.deadlineTimers.values()) {
+      this.clock.clearTimeout(timer);
+    }
+    this.deadlineTimers.clear();
+
+    if (options.abortInFlight) {
+      this.abortInFlight('stopped');
+    }
+
     // Wait for currently executing goals to complete
-    while (this.currentlyExecuting.size > 0) {
-      await this.sleep(100);
+    if (!(await this.waitForRuns(options.timeoutMs))) {
+      this.abortInFlight('stop timeout');
+      await this.waitForRuns();
+    }
+
+    await this.pendingGoalsReload;
+    await this.pendingSave;
+    await this.audit?.flush();
+  }
+
+  /**
+   * Stop starting runs; in-flight runs continue
+   *
+   * Schedules keep ticking: runs that fall due while paused start on
+   * resume(), subject to their misfire policy. Published events are queued.
+   */
+  pause(): void {
+    if (this.mode === 'paused') return;
+
+    this.mode = 'paused';
+    this.emit('paused');
+    this.log('GoalLoop paused');
+  }
+
+  /**
+   * Resume dispatching after pause() or drain()
+   */
+  resume(): void {
+    if (this.mode === 'running') return;
+
+    this.mode = 'running';
+    this.tickingSince = this.clock.now();
+    this.wakeLoop?.();
+    this.emit('resumed');
+    this.log('GoalLoop resumed');
+  }
+
+  /**
+   * Let in-flight runs finish while accepting no new work
+   *
+   * No runs start (scheduled, queued or via triggerGoal) and published
+   * events are dropped. Resolves once nothing is executing; the loop stays
+   * draining until resume() or stop().
+   */
+  async drain(): Promise<void> {
+    if (this.mode !== 'draining') {
+      this.mode = 'draining';
+      this.emit('draining');
+      this.log('GoalLoop draining');
+    }
+
+    await this.waitForRuns();
+
+    this.emit('drained');
+    this.log('GoalLoop drained');
+  }
+
+  /**
+   * Stop starting runs of the given goal types (e.g. 'communicate' during a meeting)
+   */
+  pauseTypes(...types: GoalType[]): void {
+    for (const type of types) {
+      if (this.pausedTypes.has(type)) continue;
+
+      this.pausedTypes.add(type);
+      this.emit('typePaused', type);
+      this.log(`Goal type paused: ${type}`);
+    }
+  }
+
+  /**
+   * Resume goal types paused with pauseTypes()
+   */
+  resumeTypes(...types: GoalType[]): void {
+    for (const type of types) {
+      if (!this.pausedTypes.delete(type)) continue;
+
+      this.typeResumedAt.set(type, this.clock.now());
+
+      for (const goal of this.goals.values()) {
+        if (goal.type === type) this.reschedule(goal);
+      }
+      this.emit('typeResumed', type);
+      this.log(`Goal type resumed: ${type}`);
+    }
+  }
+
+  /**
+   * Cancel a goal's in-flight run and any queued event runs
+   *
+   * The action sees `context.signal` aborted; the slot is released right
+   * away. Cancellation does not count toward retries.
+   */
+  cancelGoal(id: string): boolean {
+    const hadQueued = (this.pendingEvents.get(id)?.length ?? 0) > 0;
+    this.pendingEvents.delete(id);
+
+    const controller = this.currentlyExecuting.get(id);
+    if (controller) {
+      controller.abort(new GoalCancelledError(id, 'cancelled'));
     }
+
+    return hadQueued || controller !== undefined;
   }
 
   /**
    * Single tick of the goal loop
    */
   private async tick(): Promise<void> {
+    // Paused or draining: due goals stay queued until resume()
+    if (this.mode !== 'running') {
+      this.logDueNotRunning();
+      return;
+    }
+
+    // No free slot: wait for a run to finish (it wakes the loop)
+    if (this.currentlyExecuting.size >= this.config.maxConcurrentGoals) {
+      this.logDueNotRunning();
+      return;
+    }
+
     const readyGoals = await this.getReadyGoals();
     
     for (const goal of readyGoals) {
-      // Respect concurrency limits
+      // Sensitive goals wait for approve()/reject()
+      if (requiresApproval(goal, this.config.approvalPolicy) && !goal.pendingApproval?.approved) {
+        this.requestApproval(goal);
+        continue;
+      }
+
+      // Respect concurrency limits; the rest stay due for the next tick
       if (this.currentlyExecuting.size >= this.config.maxConcurrentGoals) {
-        break;
+        this.scheduleWake(goal.id, this.clock.now());
+        this.logNotRunning(goal);
+        continue;
+      }
+
+      // Lock busy: stay queued until a holder releases it
+      if (this.getBusyLocks(goal).length > 0) {
+        this.lockTable.wait(goal.id);
+        this.logNotRunning(goal);
+        continue;
       }
 
       // Execute goal (non-blocking)
-      this.executeGoal(goal).catch(error => {
+      const approval = goal.pendingApproval;
+      goal.pendingApproval = undefined;
+      const event = approval ? approval.event : this.pendingEvents.get(goal.id)?.shift();
+      this.executeGoal(goal, event).catch(error => {
         this.emit('goalError', { goal, error });
       });
     }
   }
 
   /**
-   * Get goals that are ready to execute
+   * Get due goals that are ready to execute
+   *
+   * Only goals whose wake time has passed are checked. Goals that turn out
+   * not to be ready are rescheduled (next condition poll, end of backoff)
+   * or left unscheduled until a dependency completes.
    */
   private async getReadyGoals(): Promise<Goal[]> {
+    const now = this.clock.now();
     const ready: Goal[] = [];
 
-    for (const goal of this.goals.values()) {
-      if (!goal.enabled) continue;
-      if (this.currentlyExecuting.has(goal.id)) continue;
+    for (const goal of this.takeDueGoals(now)) {
+      if (!goal.enabled) {
+        this.logNotRunning(goal);
+        continue;
+      }
+      if (this.currentlyExecuting.has(goal.id)) continue; // rescheduled when the run ends
+      if (this.pausedTypes.has(goal.type)) {
+        this.logNotRunning(goal);
+        continue; // rescheduled by resumeTypes()
+      }
+
+      // Approved runs skip the trigger checks; unapproved ones only expire
+      if (goal.pendingApproval) {
+        if (goal.pendingApproval.approved) {
+          if (!this.readySince.has(goal.id)) this.readySince.set(goal.id, now);
+          ready.push(goal);
+        } else if (isApprovalExpired(goal.pendingApproval, now)) {
+          this.resolveApproval(goal, 'expired');
+        } else {
+          this.reschedule(goal);
+          this.logNotRunning(goal);
+        }
+        continue;
+      }
+
+      if (goal.trigger === 'condition') {
+        this.conditionCheckedAt.set(goal.id, now);
+      }
       
-      const isReady = await this.isGoalReady(goal);
+      let isReady = false;
+      try {
+        isReady = await this.isGoalReady(goal);
+      } catch (error) {
+        this.emit('conditionError', { goal, error });
+        this.log(`Condition check failed: ${goal.id} - ${(error as Error).message}`);
+      }
+
+      const eventRun = Boolean(this.pendingEvents.get(goal.id)?.length);
+      if (isReady && goal.trigger === 'time' && !eventRun && !this.checkMisfire(goal, now)) {
+        this.reschedule(goal);
+        continue;
+      }
+
       if (isReady) {
+        if (!this.readySince.has(goal.id)) {
+          const nextRun = goal.trigger === 'time' ? goal.schedule?.nextRun.getTime() : undefined;
+          this.readySince.set(goal.id, Math.min(nextRun ?? now, now));
+        }
         ready.push(goal);
+        continue;
       }
+
+      this.readySince.delete(goal.id);
+      if (!(goal.dependsOn?.length && this.getBlockers(goal).length > 0)) {
+        const at = this.getWakeTime(goal);
+        this.scheduleWake(goal.id, at !== undefined && at > now ? at : undefined);
+      }
+      this.logNotRunning(goal);
     }
 
-    // Sort by priority
-    return ready.sort((a, b) => this.comparePriority(a.priority, b.priority));
+    // Sort by effective priority, longest waiting first on ties
+    return ready.sort((a, b) =>
+      this.getEffectivePriority(b, now) - this.getEffectivePriority(a, now) ||
+      this.readySince.get(a.id)! - this.readySince.get(b.id)!
+    );
   }
 
   /**
-   * Check if a goal is ready to execute
+   * Apply the goal's misfire policy if its scheduled run is overdue
+   * beyond the grace window; returns whether it should run now
+   *
+   * Only a run that fell due while the loop was not ticking (stopped,
+   * paused, its type paused, or the host asleep) is missed. Each `nextRun`
+   * is checked once, and a run that waited for a slot, a lock or a retry
+   * is not treated as missed.
    */
-  private async isGoalReady(goal: Goal): Promise<boolean> {
-    switch (goal.trigger) {
-      case 'time':
-        if (!goal.schedule) return false;
-        return Date.now() >= goal.schedule.nextRun.getTime();
-        
-      case 'condition':
-        if (!goal.condition) return false;
-        return await goal.condition();
-        
-      case 'event':
-        // Event-triggered goals are managed externally
-        return false;
-        
-      default:
-        return false;
-    }
+  private checkMisfire(goal: Goal, now: number): boolean {
+    const schedule = goal.schedule;
+    if (!schedule || schedule.catchUpRuns) return true;
+
+    const due = schedule.nextRun.getTime();
+    if (due > now || this.misfireCheckedAt.get(goal.id) === due) return true;
+    this.misfireCheckedAt.set(goal.id, due);
+
+    const tickingSince = Math.max(this.tickingSince, this.typeResumedAt.get(goal.type) ?? 0);
+    if (!isMisfire(schedule, now, tickingSince)) return true;
+
+    const misfire = applyMisfirePolicy(goal, now);
+    this.emit('runsMissed', misfire);
+    this.log(`Goal missed ${misfire.missed.length} run(s): ${goal.id} (${misfire.policy}, running ${misfire.runs})`);
+    this.persist();
+
+    return misfire.runs > 0;
   }
 
   /**
-   * Execute a single goal
+   * Interval between runs, as adapted to recent results
    */
-  private async executeGoal(goal: Goal): Promise<void> {
-    this.currentlyExecuting.add(goal.id);
-    this.emit('goalStarted', goal);
-    this.log(`Executing goal: ${goal.id} (${goal.description})`);
-
-    try {
-      const result = await goal.action();
-      
-      goal.lastRun = new Date();
-      goal.retries = 0;
-
-      this.emit('goalCompleted', { goal, result });
-      this.log(`Goal completed: ${goal.id} - ${result.message ?? 'Success'}`);
+  private getInterval(schedule: GoalSchedule): number {
+    return schedule.currentInterval ?? schedule.interval!;
+  }
 
-      // Update schedule if time-based
-      if (goal.schedule) {
-        this.updateSchedule(goal, result);
-      }
+  /**
+   * Lengthen an adaptive interval after an unchanged result, reset it after a change
+   */
+  private adaptInterval(goal: Goal, result: GoalResult): void {
+    const schedule = goal.schedule!;
+    if (!schedule.adaptive || !schedule.interval || schedule.cron || result.changed === undefined) return;
 
-      // Disable if max runs reached
-      if (goal.schedule?.maxRuns && 
-          (goal.schedule.runsCompleted ?? 0) >= goal.schedule.maxRuns) {
-        goal.enabled = false;
-        this.log(`Goal disabled (max runs reached): ${goal.id}`);
-      }
+    const previous = this.getInterval(schedule);
+    const interval = result.changed
+      ? schedule.interval
+      : Math.min(previous * (schedule.adaptive.factor ?? DEFAULT_ADAPTIVE_FACTOR), schedule.adaptive.maxInterval);
+    schedule.currentInterval = interval;
 
-    } catch (error) {
-      await this.handleGoalError(goal, error as Error);
-    } finally {
-      this.currentlyExecuting.delete(goal.id);
+    if (interval !== previous) {
+      this.emit('intervalAdjusted', { goal, interval, previous, changed: result.changed });
+      this.log(`Interval adjusted: ${goal.id} (${previous}ms -> ${interval}ms)`);
     }
   }
 
   /**
-   * Handle goal execution errors
+   * Highest priority reached by the goal's escalation steps
    */
-  private async handleGoalError(goal: Goal, error: Error): Promise<void> {
-    this.emit('goalError', { goal, error });
-    this.log(`Goal error: ${goal.id} - ${error.message}`);
+  private getEscalatedPriority(goal: Goal, now: number): GoalPriority | undefined {
+    const reached = this.getReachedSteps(goal, now);
+    if (reached.length === 0) return undefined;
 
-    goal.retries = (goal.retries ?? 0) + 1;
+    return reached.reduce((top, step) =>
+      PRIORITY_RANK[step.priority] > PRIORITY_RANK[top] ? step.priority : top, reached[0].priority);
+  }
 
-    if (goal.onError) {
-      await goal.onError(error);
-    }
+  private getReachedSteps(goal: Goal, now: number): NonNullable<GoalEscalation['steps']> {
+    if (!goal.deadline) return [];
 
-    // Disable if max retries exceeded
-    if (goal.maxRetries && goal.retries >= goal.maxRetries) {
-      goal.enabled = false;
-      this.log(`Goal disabled (max retries exceeded): ${goal.id}`);
-    }
+    const remaining = goal.deadline.at.getTime() - now;
+    const steps = goal.escalation?.steps ?? DEFAULT_ESCALATION_STEPS;
+    return steps.filter(step => remaining <= step.before);
   }
 
   /**
-   * Update goal schedule after execution
+   * (Re)arm the timer for a goal's next escalation step or deadline
    */
-  private updateSchedule(goal: Goal, result: GoalResult): void {
-    if (!goal.schedule) return;
+  private armDeadline(goal: Goal): void {
+    this.clock.clearTimeout(this.deadlineTimers.get(goal.id));
+    this.deadlineTimers.delete(goal.id);
+    if (!this.running || !goal.deadline) return;
 
-    goal.schedule.runsCompleted = (goal.schedule.runsCompleted ?? 0) + 1;
+    const now = this.clock.now();
+    const at = goal.deadline.at.getTime();
+    const checks = [at, ...(goal.escalation?.steps ?? DEFAULT_ESCALATION_STEPS).map(step => at - step.before)]
+      .filter(time => time > now);
+    const next = checks.length > 0 ? Math.min(...checks) : now;
 
-    if (result.shouldReschedule !== false && goal.schedule.interval) {
-      goal.schedule.nextRun = new Date(Date.now() + goal.schedule.interval);
-    }
+    this.deadlineTimers.set(goal.id, this.clock.setTimeout(() => {
+      this.deadlineTimers.delete(goal.id);
+      this.checkDeadline(goal.id);
+    }, Math.min(next - now, MAX_DEADLINE_TIMER_MS)));
   }
 
   /**
-   * Add a goal to the loop
+   * Emit escalations reached so far, or breach a passed deadline
    */
-  addGoal(goal: Omit<Goal, 'id' | 'createdAt' | 'enabled'>): string {
-    if (this.goals.size >= this.config.maxTotalGoals) {
-      throw new Error(`Maximum goals reached (${this.config.maxTotalGoals})`);
+  private checkDeadline(goalId: string): void {
+    const goal = this.goals.get(goalId);
+    if (!goal?.deadline) return;
+
+    const now = this.clock.now();
+    if (now >= goal.deadline.at.getTime()) {
+      this.breachDeadline(goal, 'missed');
+      return;
     }
 
-    const id = `goal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const fullGoal: Goal = {
-      ...goal,
-      id,
-      createdAt: new Date(),
-      enabled: true,
-      retries: 0,
-    };
+    const level = this.getReachedSteps(goal, now).length;
+    if (level > (this.escalationLevels.get(goal.id) ?? 0)) {
+      this.escalationLevels.set(goal.id, level);
 
-    this.goals.set(id, fullGoal);
-    this.emit('goalAdded', fullGoal);
-    this.log(`Goal added: ${id} (${goal.description})`);
+      const priority = this.getEscalatedPriority(goal, now)!;
+      this.emit('goalEscalated', { goal, priority, deadline: goal.deadline.at });
+      this.log(`Goal escalated: ${goal.id} (${priority}, deadline ${goal.deadline.at.toISOString()})`);
+    }
 
-    return id;
+    this.armDeadline(goal);
   }
 
   /**
-   * Remove a goal from the loop
+   * A successful run before the deadline meets it
    */
-  removeGoal(id: string): boolean {
-    const goal = this.goals.get(id);
-    if (!goal) return false;
+  private meetDeadline(goal: Goal): void {
+    if (!goal.deadline || this.clock.now() > goal.deadline.at.getTime()) return;
 
-    this.goals.delete(id);
-    this.emit('goalRemoved', goal);
-    this.log(`Goal removed: ${id}`);
+    this.emit('deadlineMet', { goal, deadline: goal.deadline.at });
+    this.log(`Deadline met: ${goal.id}`);
+    this.advanceDeadline(goal);
+  }
+
+  /**
+   * A failed run within the breach window breaches the deadline early
+   */
+  private checkDeadlineFailure(goal: Goal, error: string): void {
+    if (!goal.deadline) return;
+
+    const remaining = goal.deadline.at.getTime() - this.clock.now();
+    if (remaining <= (goal.escalation?.breachWindow ?? 0)) {
+      this.breachDeadline(goal, 'failed', error);
+    }
+  }
+
+  private breachDeadline(goal: Goal, reason: GoalSlaBreach['reason'], error?: string): void {
+    const deadline = goal.deadline!.at;
+    const breach: GoalSlaBreach = { goal, deadline, reason, error };
+
+    this.emit('slaBreached', breach);
+    this.log(`SLA breached: ${goal.id} (${reason}, deadline ${deadline.toISOString()})`);
+
+    for (const fallbackId of goal.escalation?.fallbackGoals ?? []) {
+      this.runFallback(fallbackId, breach);
+    }
+
+    this.advanceDeadline(goal);
+  }
+
+  /**
+   * Queue a fallback goal's run, with the breach as its event
+   */
+  private runFallback(fallbackId: string, breach: GoalSlaBreach): void {
+    const fallback = this.goals.get(fallbackId);
+    if (!fallback) {
+      this.log(`Fallback goal not found: ${fallbackId} (for ${breach.goal.id})`);
+      return;
+    }
+
+    const pending = this.pendingEvents.get(fallbackId) ?? [];
+    if (pending.length >= MAX_PENDING_EVENTS) {
+      pending.shift();
+    }
+    pending.push({
+      name: 'slaBreached',
+      payload: { goalId: breach.goal.id, deadline: breach.deadline, reason: breach.reason, error: breach.error },
+      publishedAt: this.currentTime(),
+    });
+    this.pendingEvents.set(fallbackId, pending);
+    this.reschedule(fallback);
+    this.log(`Fallback goal queued: ${fallbackId} (for ${breach.goal.id})`);
+  }
+
+  /**
+   * Move a recurring deadline forward, or clear a one-off one
+   */
+  private advanceDeadline(goal: Goal): void {
+    const deadline = goal.deadline!;
+    const now = this.clock.now();
+    this.escalationLevels.delete(goal.id);
+
+    if (deadline.every) {
+      const periods = Math.max(1, Math.floor((now - deadline.at.getTime()) / deadline.every) + 1);
+      goal.deadline = { ...deadline, at: new Date(deadline.at.getTime() + periods * deadline.every) };
+    } else {
+      goal.deadline = undefined;
+    }
+
+    this.armDeadline(goal);
+    this.persist();
+  }
+
+  /**
+   * Hold a ready goal until it is approved, rejected or the request expires
+   */
+  private requestApproval(goal: Goal): void {
+    const event = this.pendingEvents.get(goal.id)?.shift();
+    const approval = createApproval(goal, this.currentTime(), event, this.config.approvalPolicy?.timeout);
+
+    goal.pendingApproval = approval;
+    this.readySince.delete(goal.id);
+    this.reschedule(goal);
+
+    this.emit('approvalRequired', { goal, preview: approval.preview, expiresAt: approval.expiresAt });
+    this.log(`Approval required: ${goal.id} (${goal.description})`);
+    this.persist();
+  }
+
+  /**
+   * Drop a pending run after rejection or expiry
+   */
+  private resolveApproval(goal: Goal, outcome: 'rejected' | 'expired', reason?: string): void {
+    const approval = goal.pendingApproval;
+    if (!approval) return;
+
+    goal.pendingApproval = undefined;
+    if (!approval.event) {
+      this.skipRun(goal);
+    }
+
+    if (outcome === 'rejected') {
+      this.emit('goalRejected', { goal, preview: approval.preview, reason });
+      this.log(`Goal rejected: ${goal.id}${reason ? ` (${reason})` : ''}`);
+    } else {
+      this.emit('approvalExpired', { goal, preview: approval.preview });
+      this.log(`Approval expired: ${goal.id}`);
+    }
+
+    this.reschedule(goal);
+    this.persist();
+  }
+
+  /**
+   * Move a goal past the trigger that produced a dropped run
+   */
+  private skipRun(goal: Goal): void {
+    const now = this.currentTime();
+
+    switch (goal.trigger) {
+      case 'time':
+        if (goal.schedule?.cron) {
+          goal.schedule.nextRun = nextCronOccurrence(goal.schedule.cron, now, goal.schedule.timezone);
+        } else if (goal.schedule?.interval) {
+          goal.schedule.nextRun = new Date(now.getTime() + this.getInterval(goal.schedule));
+        } else {
+          goal.enabled = false; // one-shot
+        }
+        break;
+
+      case 'condition':
+        // Rising-edge goals wait for the next edge; cooldown applies
+        if (goal.conditionState) {
+          goal.conditionState.lastFiredAt = now;
+        }
+        break;
+
+      case 'completion':
+        // Wait for dependencies to complete again
+        this.approvalSkippedAt.set(goal.id, now);
+        break;
+    }
+  }
+
+  /**
+   * Lock keys a goal needs that are at their limit
+   */
+  private getBusyLocks(goal: Goal): string[] {
+    return this.lockTable.getBusy(getLockKeys(goal));
+  }
+
+  /**
+   * Release a finished run's locks and requeue the goals waiting on them
+   */
+  private releaseLocks(keys: string[]): void {
+    const now = this.clock.now();
+    for (const id of this.lockTable.release(keys)) {
+      this.scheduleWake(id, now);
+    }
+  }
+
+  /**
+   * Priority rank plus the aging boost earned while waiting
+   */
+  private getEffectivePriority(goal: Goal, now: number): number {
+    const escalated = this.getEscalatedPriority(goal, now);
+    const base = Math.max(PRIORITY_RANK[goal.priority], escalated ? PRIORITY_RANK[escalated] : 0);
+    const aging = this.config.priorityAging;
+    const since = this.readySince.get(goal.id);
+    if (!aging || since === undefined) return base;
+
+    const maxBoost = aging.maxBoost ?? PRIORITY_RANK.critical - base;
+    return base + Math.min(maxBoost, Math.max(0, (now - since) / aging.interval));
+  }
+
+  /**
+   * Pop every goal whose wake time is at or before `now`
+   */
+  private takeDueGoals(now: number): Goal[] {
+    const due: Goal[] = [];
+
+    for (let next = this.wakeQueue.peek(); next && next.at <= now; next = this.wakeQueue.peek()) {
+      this.wakeQueue.pop();
+      if (this.wakeTimes.get(next.goalId) !== next.at) continue; // stale entry
+
+      this.wakeTimes.delete(next.goalId);
+      const goal = this.goals.get(next.goalId);
+      if (goal) due.push(goal);
+    }
+
+    return due;
+  }
+
+  /**
+   * Earliest time a goal could become ready, if it has one
+   *
+   * Event goals (without queued events) and blocked completion goals have
+   * none; publish() and dependency completions reschedule them.
+   */
+  private getWakeTime(goal: Goal): number | undefined {
+    if (!goal.enabled) return undefined;
+
+    const now = this.clock.now();
+    let at: number | undefined;
+
+    if (goal.pendingApproval) {
+      return goal.pendingApproval.approved ? now : goal.pendingApproval.expiresAt?.getTime();
+    }
+
+    if (this.pendingEvents.get(goal.id)?.length) {
+      at = now;
+    } else {
+      switch (goal.trigger) {
+        case 'time':
+          at = goal.schedule?.nextRun.getTime();
+          break;
+
+        case 'condition': {
+          const checkedAt = this.conditionCheckedAt.get(goal.id);
+          at = checkedAt === undefined
+            ? now
+            : checkedAt + (goal.pollInterval ?? this.config.tickInterval);
+
+          // Re-check as soon as a pending debounce window ends
+          const state = goal.conditionState;
+          if (goal.debounce && state?.value && state.changedAt.getTime() + goal.debounce > now) {
+            at = Math.min(at, state.changedAt.getTime() + goal.debounce);
+          }
+          break;
+        }
+
+        case 'completion':
+          at = goal.dependsOn?.length ? now : undefined;
+          break;
+      }
+    }
+
+    if (at === undefined) return undefined;
+    return Math.max(at, goal.backoffUntil?.getTime() ?? -Infinity);
+  }
+
+  /**
+   * Set (or clear) a goal's wake time, waking the loop if it is earlier
+   * than the current sleep
+   */
+  private scheduleWake(goalId: string, at: number | undefined): void {
+    if (at === undefined) {
+      this.wakeTimes.delete(goalId);
+      return;
+    }
+
+    if (this.wakeTimes.get(goalId) === at) return;
+
+    this.wakeTimes.set(goalId, at);
+    this.wakeQueue.push({ goalId, at, seq: this.wakeSeq++ });
+
+    if (at < this.idleUntil) {
+      this.wakeLoop?.();
+    }
+  }
+
+  /**
+   * Recompute a goal's wake time after its state changed
+   */
+  private reschedule(goal: Goal): void {
+    this.scheduleWake(goal.id, this.getWakeTime(goal));
+  }
+
+  /**
+   * Reschedule a goal after one of its runs ends
+   *
+   * A schedule that did not move forward (a failure without backoff, a
+   * one-shot goal without interval) is retried after `tickInterval`
+   * rather than immediately. Queued events still run right away.
+   */
+  private rescheduleAfterRun(goal: Goal): void {
+    const now = this.clock.now();
+    const at = this.getWakeTime(goal);
+
+    if (at !== undefined && at <= now && !this.pendingEvents.get(goal.id)?.length) {
+      this.scheduleWake(goal.id, now + this.config.tickInterval);
+    } else {
+      this.scheduleWake(goal.id, at);
+    }
+  }
+
+  /**
+   * Recompute the wake time of every goal depending on `goalId`
+   */
+  private rescheduleDependents(goalId: string): void {
+    for (const goal of this.goals.values()) {
+      if (normalizeDependencies(goal.dependsOn).some(dep => dep.goalId === goalId)) {
+        this.reschedule(goal);
+      }
+    }
+  }
+
+  /**
+   * Rebuild the wake schedule from scratch
+   */
+  private rescheduleAll(): void {
+    this.wakeQueue.clear();
+    this.wakeTimes.clear();
+
+    for (const goal of this.goals.values()) {
+      this.reschedule(goal);
+    }
+  }
+
+  /**
+   * How long to sleep before the next tick
+   */
+  private getIdleDuration(): number {
+    if (this.mode !== 'running' || this.currentlyExecuting.size >= this.config.maxConcurrentGoals) {
+      return MAX_IDLE_MS;
+    }
+
+    // Drop stale entries so they don't cause early wake-ups
+    let next = this.wakeQueue.peek();
+    while (next && this.wakeTimes.get(next.goalId) !== next.at) {
+      this.wakeQueue.pop();
+      next = this.wakeQueue.peek();
+    }
+
+    if (!next) return MAX_IDLE_MS;
+    return Math.min(MAX_IDLE_MS, Math.max(0, next.at - this.clock.now()));
+  }
+
+  /**
+   * Check if a goal is ready to execute
+   */
+  private async isGoalReady(goal: Goal): Promise<boolean> {
+    if (goal.dependsOn?.length && this.getBlockers(goal).length > 0) {
+      return false;
+    }
+
+    // A parent runs again only once its goal tree has settled
+    if (this.hasOpenChildren(goal)) {
+      return false;
+    }
+
+    // Backing off after a failure (queued events wait too)
+    if (goal.backoffUntil && this.clock.now() < goal.backoffUntil.getTime()) {
+      return false;
+    }
+
+    // Published events wake a goal regardless of its trigger
+    if (this.pendingEvents.get(goal.id)?.length) {
+      return true;
+    }
+
+    switch (goal.trigger) {
+      case 'time':
+        if (!goal.schedule) return false;
+        return this.clock.now() >= goal.schedule.nextRun.getTime();
+        
+      case 'condition': {
+        if (!goal.condition) return false;
+
+        const checkedAt = this.currentTime();
+        let value: boolean;
+        try {
+          value = Boolean(await goal.condition());
+        } catch (error) {
+          this.conditionChecks.set(goal.id, { checkedAt, fired: false, error: (error as Error).message });
+          throw error;
+        }
+
+        const fired = this.updateConditionState(goal, value);
+        this.conditionChecks.set(goal.id, { checkedAt, value, fired });
+        return fired;
+      }
+        
+      case 'event':
+        // Event-triggered goals run via publish() or triggerGoal()
+        return false;
+
+      case 'completion':
+        // Dependencies completed since this goal last ran (checked above)
+        return Boolean(goal.dependsOn?.length);
+        
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Record a condition check and decide whether it should fire
+   *
+   * Level goals fire on every true check, rising-edge goals once per
+   * false -> true transition. `debounce` and `cooldown` apply to both.
+   */
+  private updateConditionState(goal: Goal, value: boolean): boolean {
+    const now = this.currentTime();
+    const previous = goal.conditionState;
+
+    if (!previous || previous.value !== value) {
+      goal.conditionState = { value, changedAt: now, lastFiredAt: previous?.lastFiredAt };
+      this.emit('conditionChanged', { goal, value, previous: previous?.value });
+      this.log(`Condition changed: ${goal.id} (${previous?.value ?? 'unknown'} -> ${value})`);
+    }
+
+    if (!value) return false;
+
+    const { changedAt, lastFiredAt } = goal.conditionState!;
+
+    if (goal.debounce && now.getTime() - changedAt.getTime() < goal.debounce) {
+      return false;
+    }
+
+    if (goal.conditionMode === 'rising-edge' && lastFiredAt && lastFiredAt >= changedAt) {
+      return false;
+    }
+
+    if (goal.cooldown && lastFiredAt && now.getTime() - lastFiredAt.getTime() < goal.cooldown) {
+      return false;
+    }
 
     return true;
   }
 
   /**
-   * Enable/disable a goal
+   * Execute a single goal, tracking the run for stop() and drain()
+   */
+  private executeGoal(goal: Goal, event?: GoalEvent): Promise<void> {
+    const run = this.runGoal(goal, event);
+    const untrack = () => { this.inFlightRuns.delete(run); };
+
+    this.inFlightRuns.add(run);
+    run.then(untrack, untrack);
+    return run;
+  }
+
+  private async runGoal(goal: Goal, event?: GoalEvent): Promise<void> {
+    const controller = new AbortController();
+    const startedAt = this.clock.now();
+    const locks = getLockKeys(goal);
+    this.currentlyExecuting.set(goal.id, controller);
+    this.lockTable.acquire(locks);
+    this.readySince.delete(goal.id);
+    this.lockTable.forget(goal.id);
+    this.debugReasons.delete(goal.id);
+    if (goal.trigger === 'condition' && !event && goal.conditionState) {
+      goal.conditionState.lastFiredAt = this.currentTime();
+    }
+    this.emit('goalStarted', goal);
+    this.log(`Executing goal: ${goal.id} (${goal.description})` +
+      (event ? ` [event: ${event.name}]` : ''));
+
+    const run = this.runAction(goal, {
+      event,
+      signal: controller.signal,
+      spawn: (child) => this.spawnSubGoal(goal, child),
+    }, controller);
+
+    try {
+      const result = await run.result;
+      
+      // A goal tree completes when its sub-goals settle, not when the parent's run ends
+      const awaitingChildren = !goal.settledOutcome && this.getChildren(goal.id).length > 0;
+      goal.lastRun = this.currentTime();
+      if (!awaitingChildren) {
+        goal.lastOutcome = result.success ? 'success' : 'failure';
+        goal.lastCompletedAt = goal.lastRun;
+      }
+      goal.retries = 0;
+      goal.backoffUntil = undefined;
+
+      this.emit('goalCompleted', { goal, result });
+      this.log(`Goal completed: ${goal.id} - ${result.message ?? 'Success'}`);
+      this.recordRun(goal, startedAt, result.success ? 'success' : 'failure', { result });
+
+      if (result.success) {
+        this.meetDeadline(goal);
+      } else {
+        this.checkDeadlineFailure(goal, result.message ?? 'Goal reported failure');
+      }
+
+      // Update schedule if time-based
+      if (goal.schedule) {
+        this.updateSchedule(goal, result);
+      }
+
+      // Disable if max runs reached
+      if (goal.schedule?.maxRuns && 
+          (goal.schedule.runsCompleted ?? 0) >= goal.schedule.maxRuns) {
+        goal.enabled = false;
+        this.log(`Goal disabled (max runs reached): ${goal.id}`);
+      }
+
+      if (awaitingChildren) {
+        this.checkSubGoals(goal);
+      } else if (goal.parentId && !goal.settledOutcome) {
+        this.settleGoal(goal, result.success ? 'success' : 'failure');
+      }
+
+    } catch (error) {
+      if (error instanceof GoalCancelledError) {
+        this.emit('goalCancelled', { goal, reason: error.reason });
+        this.log(`Goal cancelled: ${goal.id} (${error.reason})`);
+        this.recordRun(goal, startedAt, 'cancelled', { message: error.reason });
+      } else {
+        this.recordRun(goal, startedAt, error instanceof GoalTimeoutError ? 'timeout' : 'failure', {
+          error: (error as Error).message,
+        });
+        this.checkDeadlineFailure(goal, (error as Error).message);
+        await this.handleGoalError(goal, error as Error);
+      }
+    } finally {
+      if (this.currentlyExecuting.get(goal.id) === controller) {
+        this.currentlyExecuting.delete(goal.id);
+      }
+      // An aborted action may ignore its signal: it keeps its locks until it really ends
+      if (controller.signal.aborted) {
+        run.settled.then(() => this.releaseLocks(locks));
+      } else {
+        this.releaseLocks(locks);
+      }
+      this.rescheduleAfterRun(goal);
+      this.rescheduleDependents(goal.id);
+      this.wakeLoop?.(); // a slot is free
+      this.persist();
+    }
+  }
+
+  /**
+   * Add a finished run to the goal's history and the audit log
+   *
+   * Runs of goals removed while running are not recorded.
+   */
+  private recordRun(
+    goal: Goal,
+    startedAt: number,
+    outcome: AuditOutcome,
+    details: { result?: GoalResult; message?: string; error?: string }
+  ): void {
+    if (this.goals.get(goal.id) !== goal) return;
+
+    const finishedAt = this.currentTime();
+    const durationMs = finishedAt.getTime() - startedAt;
+
+    this.getHistory(goal.id).record({
+      startedAt: new Date(startedAt),
+      finishedAt,
+      durationMs,
+      outcome,
+      result: details.result,
+      error: details.error,
+    });
+
+    if (!this.audit) return;
+
+    const entry: AuditEntry = {
+      timestamp: finishedAt.toISOString(),
+      source: 'goal-loop',
+      goalId: goal.id,
+      type: goal.type,
+      priority: goal.priority,
+      trigger: goal.trigger,
+      durationMs,
+      outcome,
+      message: details.message ?? details.result?.message,
+      error: details.error,
+    };
+
+    this.audit.append(entry).catch(error => {
+      this.emit('auditError', error);
+    });
+  }
+
+  /**
+   * Run a goal's action, settling early if the run is aborted
+   *
+   * An action that ignores its signal keeps running in the background,
+   * but it no longer holds a concurrency slot. `settled` resolves once the
+   * action itself has ended.
+   */
+  private runAction(
+    goal: Goal,
+    context: GoalRunContext,
+    controller: AbortController
+  ): { result: Promise<GoalResult>; settled: Promise<void> } {
+    let settled!: Promise<void>;
+
+    const result = new Promise<GoalResult>((resolve, reject) => {
+      const onAbort = () => reject(controller.signal.reason);
+      controller.signal.addEventListener('abort', onAbort, { once: true });
+
+      const timer = goal.timeout
+        ? this.clock.setTimeout(
+            () => controller.abort(new GoalTimeoutError(goal.id, goal.timeout!)),
+            goal.timeout
+          )
+        : undefined;
+
+      settled = Promise.resolve()
+        .then(() => goal.action(context))
+        .then(resolve, reject)
+        .finally(() => {
+          this.clock.clearTimeout(timer);
+          controller.signal.removeEventListener('abort', onAbort);
+        });
+    });
+
+    return { result, settled };
+  }
+
+  /**
+   * Run a goal's task on the orchestrator, reporting its progress
+   */
+  private runWorkerGoal(goalId: string, task: GoalWorkerTask, context: GoalRunContext): Promise<GoalResult> {
+    const goal = this.goals.get(goalId)!;
+
+    return runWorkerTask(this.config.orchestrator!, {
+      ...task,
+      description: task.description ?? goal.description,
+      priority: task.priority ?? PRIORITY_RANK[goal.priority],
+      config: task.config ?? {},
+    }, {
+      signal: context.signal,
+      onProgress: (progress) => {
+        this.emit('goalProgress', { goal, ...progress });
+        this.log(`Goal progress: ${goal.id} (${progress.completed}/${progress.total})` +
+          (progress.message ? ` ${progress.message}` : ''));
+      },
+    });
+  }
+
+  /**
+   * Abort every in-flight goal run
+   */
+  private abortInFlight(reason: string): void {
+    for (const [id, controller] of this.currentlyExecuting) {
+      if (!controller.signal.aborted) {
+        controller.abort(new GoalCancelledError(id, reason));
+      }
+    }
+  }
+
+  /**
+   * Handle goal execution errors
+   */
+  private async handleGoalError(goal: Goal, error: Error): Promise<void> {
+    if (error instanceof GoalTimeoutError) {
+      this.emit('goalTimeout', { goal, timeout: error.timeout });
+      this.log(`Goal timed out: ${goal.id} (${error.timeout}ms)`);
+    } else {
+      this.emit('goalError', { goal, error });
+      this.log(`Goal error: ${goal.id} - ${error.message}`);
+    }
+
+    goal.retries = (goal.retries ?? 0) + 1;
+    goal.lastOutcome = 'failure';
+    goal.lastCompletedAt = this.currentTime();
+
+    if (goal.onError) {
+      await goal.onError(error);
+    }
+
+    // Disable if max retries exceeded
+    if (goal.maxRetries && goal.retries >= goal.maxRetries) {
+      goal.enabled = false;
+      goal.deadLetter = { error: error.message, failedAt: this.currentTime(), retries: goal.retries };
+      this.emit('goalDeadLettered', goal);
+      this.log(`Goal disabled (max retries exceeded): ${goal.id}`);
+      if (goal.parentId && !goal.settledOutcome) {
+        this.settleGoal(goal, 'failure');
+      }
+      return;
+    }
+
+    this.applyBackoff(goal);
+  }
+
+  /**
+   * Push the next attempt back according to the goal's retry policy
+   */
+  private applyBackoff(goal: Goal): void {
+    const loopPolicy = this.config.retryPolicy;
+    if (goal.retryPolicy === false || (goal.retryPolicy === undefined && loopPolicy === false)) return;
+
+    const policy: GoalRetryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      ...(loopPolicy || undefined),
+      ...goal.retryPolicy,
+    };
+    const delay = computeBackoffDelay(policy, goal.retries ?? 1);
+    const retryAt = new Date(this.clock.now() + delay);
+
+    goal.backoffUntil = retryAt;
+    if (goal.schedule) {
+      goal.schedule.nextRun = retryAt;
+    }
+
+    this.log(`Goal backing off: ${goal.id} (retry ${goal.retries} in ${delay}ms)`);
+  }
+
+  /**
+   * Update goal schedule after execution
+   */
+  private updateSchedule(goal: Goal, result: GoalResult): void {
+    if (!goal.schedule) return;
+
+    goal.schedule.runsCompleted = (goal.schedule.runsCompleted ?? 0) + 1;
+
+    if (result.shouldReschedule === false) return;
+
+    this.adaptInterval(goal, result);
+
+    // The action picked its own next run
+    if (result.nextRunAt || result.delayMs !== undefined) {
+      goal.schedule.nextRun = result.nextRunAt ?? new Date(this.clock.now() + result.delayMs!);
+      goal.schedule.catchUpRuns = 0;
+      this.misfireCheckedAt.set(goal.id, goal.schedule.nextRun.getTime());
+      return;
+    }
+
+    // Catching up on missed runs: go again as soon as possible
+    if (goal.schedule.catchUpRuns) {
+      goal.schedule.catchUpRuns--;
+      goal.schedule.nextRun = this.currentTime();
+      this.misfireCheckedAt.set(goal.id, goal.schedule.nextRun.getTime());
+      return;
+    }
+
+    if (goal.schedule.cron) {
+      goal.schedule.nextRun = nextCronOccurrence(goal.schedule.cron, this.currentTime(), goal.schedule.timezone);
+    } else if (goal.schedule.interval) {
+      goal.schedule.nextRun = new Date(this.clock.now() + this.getInterval(goal.schedule));
+    }
+  }
+
+  /**
+   * Add a goal to the loop
+   */
+  addGoal(goal: GoalDefinition): string {
+    if (this.goals.size >= this.config.maxTotalGoals) {
+      throw new Error(`Maximum goals reached (${this.config.maxTotalGoals})`);
+    }
+
+    if (goal.id && this.goals.has(goal.id)) {
+      throw new Error(`Goal already exists: ${goal.id}`);
+    }
+
+    // Fail fast on malformed cron expressions or timezones
+    if (goal.schedule?.cron) {
+      nextCronOccurrence(goal.schedule.cron, this.currentTime(), goal.schedule.timezone);
+    }
+    if (goal.schedule?.adaptive && !(goal.schedule.interval && goal.schedule.adaptive.maxInterval >= goal.schedule.interval)) {
+      throw new Error('Adaptive schedules require an interval no longer than maxInterval');
+    }
+    if (goal.parentId && !this.goals.has(goal.parentId)) {
+      throw new Error(`Parent goal not found: ${goal.parentId}`);
+    }
+
+    const id = goal.id ?? `goal_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const fullGoal: Goal = {
+      ...goal,
+      id,
+      schedule: goal.schedule && this.toSchedule(goal.schedule),
+      action: goal.action ?? this.resolveAction({ ...goal, id }),
+      condition: goal.condition ?? this.resolveCondition(goal),
+      createdAt: this.currentTime(),
+      enabled: true,
+      retries: 0,
+    };
+
+    const cycle = findDependencyCycle(id, goalId =>
+      goalId === id
+        ? normalizeDependencies(fullGoal.dependsOn)
+        : normalizeDependencies(this.goals.get(goalId)?.dependsOn)
+    );
+    if (cycle) {
+      throw new Error(`Goal dependency cycle detected: ${cycle.join(' -> ')}`);
+    }
+
+    this.goals.set(id, fullGoal);
+    this.unrestoredGoals.delete(id);
+    this.reschedule(fullGoal);
+    this.rescheduleDependents(id);
+    this.armDeadline(fullGoal);
+    this.emit('goalAdded', fullGoal);
+    this.log(`Goal added: ${id} (${goal.description})`);
+    this.persist();
+
+    return id;
+  }
+
+  /**
+   * Fill in a defined schedule's first run from the loop's clock
+   */
+  private toSchedule({ startDelay, ...schedule }: GoalScheduleDefinition): GoalSchedule {
+    if (schedule.nextRun) return { ...schedule, nextRun: schedule.nextRun };
+
+    const earliest = new Date(this.clock.now() + (startDelay ?? 0));
+    return {
+      ...schedule,
+      nextRun: schedule.cron ? nextCronOccurrence(schedule.cron, earliest, schedule.timezone) : earliest,
+    };
+  }
+
+  /**
+   * Register a named action handler
+   *
+   * Goals that reference an action by name can be reloaded from the store,
+   * since the closure is rebuilt from the handler and the goal's params.
+   */
+  registerAction(name: string, handler: GoalActionHandler): void {
+    this.actionHandlers.set(name, handler);
+  }
+
+  /**
+   * Register a named condition handler
+   */
+  registerCondition(name: string, handler: GoalConditionHandler): void {
+    this.conditionHandlers.set(name, handler);
+  }
+
+  /**
+   * Remove a goal from the loop
+   *
+   * An in-flight run is aborted (reason `removed`) and not recorded.
+   */
+  removeGoal(id: string): boolean {
+    const goal = this.goals.get(id);
+    if (!goal) return false;
+
+    // Sub-goals go with their parent, which is detached first so their
+    // removal does not settle it
+    const children = this.getChildren(id);
+    this.goals.delete(id);
+    this.currentlyExecuting.get(id)?.abort(new GoalCancelledError(id, 'removed'));
+    for (const child of children) {
+      this.removeGoal(child.id);
+    }
+
+    this.pendingEvents.delete(id);
+    this.histories.delete(id);
+    this.readySince.delete(id);
+    this.lockTable.forget(id);
+    this.approvalSkippedAt.delete(id);
+    this.goalFileSignatures.delete(id);
+    this.wakeTimes.delete(id);
+    this.conditionCheckedAt.delete(id);
+    this.conditionChecks.delete(id);
+    this.debugReasons.delete(id);
+    this.misfireCheckedAt.delete(id);
+    this.escalationLevels.delete(id);
+    this.clock.clearTimeout(this.deadlineTimers.get(id));
+    this.deadlineTimers.delete(id);
+    this.rescheduleDependents(id);
+    this.emit('goalRemoved', goal);
+    this.log(`Goal removed: ${id}`);
+
+    // The remaining sub-goals may now decide the parent's outcome
+    const parent = goal.parentId ? this.goals.get(goal.parentId) : undefined;
+    if (parent && this.hasOpenChildren(parent) && !this.currentlyExecuting.has(parent.id)) {
+      this.checkSubGoals(parent);
+    }
+    this.persist();
+
+    return true;
+  }
+
+  /**
+   * Enable/disable a goal
+   */
+  setGoalEnabled(id: string, enabled: boolean): boolean {
+    const goal = this.goals.get(id);
+    if (!goal) return false;
+
+    goal.enabled = enabled;
+    if (enabled) {
+      goal.deadLetter = undefined;
+    } else {
+      this.readySince.delete(id);
+    }
+    this.reschedule(goal);
+    this.log(`Goal ${enabled ? 'enabled' : 'disabled'}: ${id}`);
+    this.persist();
+
+    return true;
+  }
+
+  /**
+   * Apply the goals file: add new entries, update edited ones, remove
+   * goals whose entries are gone
+   *
+   * Invalid entries are reported in the result (and the `goalsFileLoaded`
+   * event); a goal whose entry became invalid keeps its last valid version.
+   * If the file cannot be read or parsed, nothing changes.
+   */
+  reloadGoalsFile(): Promise<GoalFileReloadResult> {
+    if (!this.config.goalsFile) {
+      return Promise.reject(new Error('No goals file configured'));
+    }
+
+    const reload = this.pendingGoalsReload.then(() => this.applyGoalsFile(this.config.goalsFile!));
+    this.pendingGoalsReload = reload.catch(() => undefined);
+    return reload;
+  }
+
+  /**
+   * Approve a goal's pending run
+   *
+   * The run starts as soon as a slot (and its locks) are free.
+   */
+  approve(id: string): boolean {
+    const goal = this.goals.get(id);
+    if (!goal?.pendingApproval || goal.pendingApproval.approved) return false;
+
+    goal.pendingApproval.approved = true;
+    this.reschedule(goal);
+
+    this.emit('goalApproved', { goal, preview: goal.pendingApproval.preview });
+    this.log(`Goal approved: ${id}`);
+    this.persist();
+
+    return true;
+  }
+
+  /**
+   * Reject a goal's pending run
+   *
+   * Only that run is dropped: time goals move to their next occurrence,
+   * event runs discard their event, condition and completion goals wait
+   * for their next trigger.
+   */
+  reject(id: string, reason?: string): boolean {
+    const goal = this.goals.get(id);
+    if (!goal || !isAwaitingApproval(goal)) return false;
+
+    this.resolveApproval(goal, 'rejected', reason);
+    return true;
+  }
+
+  /**
+   * Get goals waiting for approval
+   */
+  getPendingApprovals(): Goal[] {
+    return this.getAllGoals().filter(isAwaitingApproval);
+  }
+
+  /**
+   * Get goals disabled by exhausted retries
+   */
+  getDeadLetters(): Goal[] {
+    return this.getAllGoals().filter(goal => goal.deadLetter);
+  }
+
+  /**
+   * Re-enable a dead-lettered goal with a clean retry count
+   *
+   * Time-based goals are due immediately after revival.
+   */
+  reviveGoal(id: string): boolean {
+    const goal = this.goals.get(id);
+    if (!goal?.deadLetter) return false;
+
+    goal.deadLetter = undefined;
+    goal.enabled = true;
+    goal.retries = 0;
+    goal.backoffUntil = undefined;
+    if (goal.schedule) {
+      goal.schedule.nextRun = this.currentTime();
+    }
+    this.reschedule(goal);
+
+    this.emit('goalRevived', goal);
+    this.log(`Goal revived: ${id}`);
+    this.persist();
+
+    return true;
+  }
+
+  /**
+   * Get goal by ID
+   */
+  getGoal(id: string): Goal | undefined {
+    return this.goals.get(id);
+  }
+
+  /**
+   * Get all goals
+   */
+  getAllGoals(): Goal[];
+  getAllGoals(options: { tree: true }): GoalTreeNode[];
+  getAllGoals(options: { tree?: boolean } = {}): Goal[] | GoalTreeNode[] {
+    const goals = Array.from(this.goals.values());
+    if (!options.tree) return goals;
+
+    // Top-level goals (and orphans whose parent is gone) are roots
+    return goals
+      .filter(goal => !goal.parentId || !this.goals.has(goal.parentId))
+      .map(goal => getGoalTree(goal, id => this.getChildren(id)));
+  }
+
+  /**
+   * Get a parent goal's progress toward its child policy
+   */
+  getGoalProgress(id: string): GoalProgress | undefined {
+    const goal = this.goals.get(id);
+    return goal && getGoalProgress(goal, childId => this.getChildren(childId));
+  }
+
+  /**
+   * Add a sub-goal from a running parent
+   *
+   * A parent whose goal tree already settled starts a new tree: the previous
+   * run's sub-goals are removed and the parent is open again.
+   */
+  private spawnSubGoal(parent: Goal, child: GoalDefinition): string {
+    if (parent.settledOutcome) {
+      for (const previous of this.getChildren(parent.id)) {
+        this.removeGoal(previous.id);
+      }
+      parent.settledOutcome = undefined;
+      parent.settledAt = undefined;
+    }
+
+    return this.addGoal({ ...child, parentId: parent.id });
+  }
+
+  private getChildren(id: string): Goal[] {
+    return Array.from(this.goals.values()).filter(goal => goal.parentId === id);
+  }
+
+  private hasOpenChildren(goal: Goal): boolean {
+    return !goal.settledOutcome && this.getChildren(goal.id).length > 0;
+  }
+
+  /**
+   * Settle a parent once its child policy is met or out of reach
+   */
+  private checkSubGoals(parent: Goal): void {
+    const progress = this.getGoalProgress(parent.id);
+    if (!progress || parent.settledOutcome) return;
+
+    const outcome = getTreeOutcome(progress);
+    if (outcome) {
+      this.settleGoal(parent, outcome);
+    }
+  }
+
+  /**
+   * Record a sub-goal's or goal tree's final outcome and pass it up the tree
+   */
+  private settleGoal(goal: Goal, outcome: GoalOutcome): void {
+    const now = this.currentTime();
+    goal.settledOutcome = outcome;
+    goal.settledAt = now;
+
+    // Finished steps do not run again
+    if (goal.parentId) {
+      goal.enabled = false;
+    }
+
+    const children = this.getChildren(goal.id);
+    if (children.length > 0) {
+      goal.lastOutcome = outcome;
+      goal.lastCompletedAt = now;
+      this.reschedule(goal);
+      this.rescheduleDependents(goal.id);
+
+      // Sub-goals still open can no longer change the outcome
+      for (const child of children.filter(child => !child.settledOutcome && child.enabled)) {
+        child.enabled = false;
+        this.cancelGoal(child.id);
+      }
+
+      const progress = this.getGoalProgress(goal.id)!;
+      this.emit(outcome === 'success' ? 'subGoalsCompleted' : 'subGoalsFailed', { goal, progress });
+      this.log(`Goal tree ${outcome === 'success' ? 'completed' : 'failed'}: ${goal.id} ` +
+        `(${progress.succeeded}/${progress.total} succeeded, ${progress.required} required)`);
+    }
+
+    const parent = goal.parentId ? this.goals.get(goal.parentId) : undefined;
+    if (parent) {
+      this.emit('subGoalSettled', { goal, parent, outcome });
+      // A parent still running checks its sub-goals when its run ends
+      if (!this.currentlyExecuting.has(parent.id)) {
+        this.checkSubGoals(parent);
+      }
+    }
+    this.persist();
+  }
+
+  /**
+   * Get the dependency graph
+   *
+   * One node per goal, with its dependencies, dependents and the
+   * dependencies currently blocking it (and why).
+   */
+  getDependencyGraph(): GoalDependencyNode[] {
+    const goals = this.getAllGoals();
+
+    return goals.map(goal => {
+      const blockedBy = goal.dependsOn?.length ? this.getBlockers(goal) : [];
+      return {
+        id: goal.id,
+        description: goal.description,
+        trigger: goal.trigger,
+        dependsOn: normalizeDependencies(goal.dependsOn),
+        dependents: goals
+          .filter(other => normalizeDependencies(other.dependsOn).some(dep => dep.goalId === goal.id))
+          .map(other => other.id),
+        blocked: blockedBy.length > 0,
+        blockedBy,
+      };
+    });
+  }
+
+  /**
+   * Manually trigger an event-based goal
+   *
+   * A goal that needs approval is not run: its run is queued for approval
+   * (emitting `approvalRequired`) and the call throws.
+   */
+  async triggerGoal(id: string): Promise<void> {
+    const goal = this.goals.get(id);
+    if (!goal) {
+      throw new Error(`Goal not found: ${id}`);
+    }
+
+    if (goal.trigger !== 'event') {
+      throw new Error(`Goal ${id} is not event-triggered`);
+    }
+
+    if (this.mode !== 'running') {
+      throw new Error(`GoalLoop is ${this.mode}`);
+    }
+    if (this.pausedTypes.has(goal.type)) {
+      throw new Error(`Goal type ${goal.type} is paused`);
+    }
+
+    // Manual runs pass the approval gate too; approve() then lets the loop run it
+    if (requiresApproval(goal, this.config.approvalPolicy) && !goal.pendingApproval?.approved) {
+      if (!goal.pendingApproval) {
+        this.requestApproval(goal);
+      }
+      throw new Error(`Goal ${id} is awaiting approval`);
+    }
+
+    const busy = this.getBusyLocks(goal);
+    if (busy.length > 0) {
+      throw new Error(`Goal ${id} is waiting on locks: ${busy.join(', ')}`);
+    }
+
+    const approval = goal.pendingApproval;
+    goal.pendingApproval = undefined;
+    await this.executeGoal(goal, approval?.event);
+  }
+
+  /**
+   * Publish a named event
+   *
+   * Queues one run for every enabled goal subscribed to the event (and
+   * whose filter matches the payload). The payload reaches the action as
+   * `context.event`. Returns the ids of the goals that were queued.
+   */
+  publish(eventName: string, payload?: any): string[] {
+    const event: GoalEvent = { name: eventName, payload, publishedAt: this.currentTime() };
+    const queued: string[] = [];
+
+    if (this.mode === 'draining') {
+      this.log(`Event dropped (draining): ${eventName}`);
+      return queued;
+    }
+
+    for (const goal of this.goals.values()) {
+      if (!goal.enabled || !goal.events) continue;
+      if (!goal.events.some(sub => matchesSubscription(sub, event))) continue;
+
+      const pending = this.pendingEvents.get(goal.id) ?? [];
+      if (pending.length >= MAX_PENDING_EVENTS) {
+        pending.shift();
+        this.log(`Event queue full, dropped oldest event for goal: ${goal.id}`);
+      }
+      pending.push(event);
+      this.pendingEvents.set(goal.id, pending);
+      this.reschedule(goal);
+      queued.push(goal.id);
+    }
+
+    this.emit('eventPublished', { event, goalIds: queued });
+    this.log(`Event published: ${eventName} (${queued.length} goal(s) queued)`);
+
+    return queued;
+  }
+
+  /**
+   * List which time-based goals would fire within the next `durationMs`
+   *
+   * A dry run: schedules are projected forward from the clock's current
+   * time without executing actions or changing any goal. Condition, event
+   * and completion triggers depend on runtime state and are not projected.
    */
-  setGoalEnabled(id: string, enabled: boolean): boolean {
-    const goal = this.goals.get(id);
-    if (!goal) return false;
+  simulate(durationMs: number): SimulatedRun[] {
+    const until = this.clock.now() + durationMs;
+    const runs: SimulatedRun[] = [];
 
-    goal.enabled = enabled;
-    this.log(`Goal ${enabled ? 'enabled' : 'disabled'}: ${id}`);
+    for (const goal of this.goals.values()) {
+      if (!goal.enabled || goal.trigger !== 'time' || !goal.schedule) continue;
 
-    return true;
+      const schedule = goal.schedule;
+      const remaining = schedule.maxRuns !== undefined
+        ? schedule.maxRuns - (schedule.runsCompleted ?? 0)
+        : Infinity;
+      const limit = Math.min(remaining, MAX_SIMULATED_RUNS);
+
+      let at = new Date(Math.max(schedule.nextRun.getTime(), this.clock.now()));
+      for (let count = 0; count < limit && at.getTime() <= until; count++) {
+        runs.push({
+          goalId: goal.id,
+          description: goal.description,
+          type: goal.type,
+          priority: goal.priority,
+          at,
+        });
+
+        if (schedule.cron) {
+          at = nextCronOccurrence(schedule.cron, at, schedule.timezone);
+        } else if (schedule.interval) {
+          at = new Date(at.getTime() + this.getInterval(schedule));
+        } else {
+          break;
+        }
+      }
+    }
+
+    return runs.sort((a, b) =>
+      a.at.getTime() - b.at.getTime() || this.comparePriority(a.priority, b.priority)
+    );
   }
 
   /**
-   * Get goal by ID
+   * Get a goal's scheduling status, including its effective priority
    */
-  getGoal(id: string): Goal | undefined {
-    return this.goals.get(id);
+  getGoalStatus(id: string): GoalStatus | undefined {
+    const goal = this.goals.get(id);
+    if (!goal) return undefined;
+
+    const now = this.clock.now();
+    const since = this.readySince.get(id);
+    return {
+      id,
+      enabled: goal.enabled,
+      executing: this.currentlyExecuting.has(id),
+      priority: goal.priority,
+      effectivePriority: this.getEffectivePriority(goal, now),
+      waitingSince: since !== undefined ? new Date(since) : undefined,
+      waitingOnLocks: this.lockTable.isWaiting(id) ? this.getBusyLocks(goal) : undefined,
+      awaitingApproval: isAwaitingApproval(goal),
+      paused: this.mode !== 'running' || this.pausedTypes.has(goal.type),
+      nextRun: goal.schedule?.nextRun,
+      deadline: goal.deadline?.at,
+      timeToDeadline: goal.deadline ? goal.deadline.at.getTime() - now : undefined,
+      escalatedPriority: this.getEscalatedPriority(goal, now),
+    };
   }
 
   /**
-   * Get all goals
+   * Explain why a goal is (or is not) running right now
    */
-  getAllGoals(): Goal[] {
-    return Array.from(this.goals.values());
+  explainGoal(id: string): GoalExplanation | undefined {
+    const goal = this.goals.get(id);
+    if (!goal) return undefined;
+
+    const now = this.clock.now();
+    const queue = this.readySince.has(id) ? this.getQueue() : [];
+    const queueIndex = queue.findIndex(status => status.id === id);
+    const slotsFull = this.currentlyExecuting.size >= this.config.maxConcurrentGoals;
+    const busyLocks = this.getBusyLocks(goal);
+    const blockers = goal.dependsOn?.length ? this.getBlockers(goal) : [];
+
+    const explanation: GoalExplanation = {
+      id,
+      trigger: goal.trigger,
+      now: new Date(now),
+      executing: this.currentlyExecuting.has(id),
+      nextRun: goal.schedule?.nextRun,
+      dueIn: goal.schedule ? goal.schedule.nextRun.getTime() - now : undefined,
+      lastCondition: this.conditionChecks.get(id),
+      pendingEvents: this.pendingEvents.get(id)?.length ?? 0,
+      disabledReason: this.getDisabledReason(goal),
+      paused: this.mode !== 'running' || this.pausedTypes.has(goal.type),
+      awaitingApproval: isAwaitingApproval(goal),
+      backoffUntil: goal.backoffUntil && goal.backoffUntil.getTime() > now ? goal.backoffUntil : undefined,
+      concurrencyLimit: slotsFull
+        ? { running: this.currentlyExecuting.size, max: this.config.maxConcurrentGoals }
+        : undefined,
+      waitingOnLocks: busyLocks.length > 0 ? busyLocks : undefined,
+      blockedBy: blockers.length > 0 ? blockers : undefined,
+      subGoals: this.hasOpenChildren(goal) ? this.getGoalProgress(id) : undefined,
+      queuePosition: queueIndex >= 0 ? queueIndex + 1 : undefined,
+      reasons: [],
+    };
+    explanation.reasons = this.describeExplanation(goal, explanation);
+
+    return explanation;
   }
 
   /**
-   * Manually trigger an event-based goal
+   * Readable reasons for an explanation (absolute times only, so
+   * unchanged reasons compare equal in debug logs)
    */
-  async triggerGoal(id: string): Promise<void> {
-    const goal = this.goals.get(id);
-    if (!goal) {
-      throw new Error(`Goal not found: ${id}`);
+  private describeExplanation(goal: Goal, explanation: GoalExplanation): string[] {
+    const reasons: string[] = [];
+    const mode = this.running ? this.mode : 'stopped';
+
+    if (explanation.executing) reasons.push('Running now');
+    if (explanation.disabledReason) reasons.push(`Disabled (${explanation.disabledReason})`);
+    if (mode !== 'running') reasons.push(`Loop is ${mode}`);
+    if (this.pausedTypes.has(goal.type)) reasons.push(`Goal type ${goal.type} is paused`);
+    if (explanation.awaitingApproval) reasons.push('Awaiting approval');
+    if (explanation.backoffUntil) {
+      reasons.push(`Backing off after a failure until ${explanation.backoffUntil.toISOString()}`);
+    }
+    for (const blocker of explanation.blockedBy ?? []) {
+      reasons.push(`Waiting on dependency ${blocker.goalId} (${blocker.reason})`);
+    }
+    if (explanation.subGoals) {
+      const { succeeded, required, pending } = explanation.subGoals;
+      reasons.push(`Waiting on sub-goals (${succeeded}/${required} succeeded, ${pending} pending)`);
     }
 
-    if (goal.trigger !== 'event') {
-      throw new Error(`Goal ${id} is not event-triggered`);
+    if (explanation.pendingEvents > 0) {
+      reasons.push(`${explanation.pendingEvents} queued event run(s)`);
+    } else {
+      reasons.push(...this.describeTrigger(goal, explanation));
+    }
+
+    if (explanation.queuePosition !== undefined) {
+      reasons.push(`Queued at position ${explanation.queuePosition} of ${this.readySince.size}`);
+      if (explanation.concurrencyLimit) {
+        reasons.push(`All ${explanation.concurrencyLimit.max} slots are busy`);
+      }
+      if (explanation.waitingOnLocks) {
+        reasons.push(`Waiting on locks: ${explanation.waitingOnLocks.join(', ')}`);
+      }
+    }
+
+    return reasons;
+  }
+
+  private describeTrigger(goal: Goal, explanation: GoalExplanation): string[] {
+    switch (goal.trigger) {
+      case 'time':
+        if (!explanation.nextRun) return ['No schedule'];
+        return explanation.dueIn! > 0
+          ? [`Next run at ${explanation.nextRun.toISOString()}`]
+          : [`Due since ${explanation.nextRun.toISOString()}`];
+
+      case 'condition': {
+        const check = explanation.lastCondition;
+        if (!check) return ['Condition not checked yet'];
+        if (check.error) return [`Condition check failed: ${check.error}`];
+        if (!check.value) return ['Condition is false'];
+        if (check.fired) return ['Condition is true'];
+
+        const { changedAt, lastFiredAt } = goal.conditionState!;
+        const now = explanation.now.getTime();
+        if (goal.debounce && now - changedAt.getTime() < goal.debounce) {
+          return [`Condition is true, debouncing until ${new Date(changedAt.getTime() + goal.debounce).toISOString()}`];
+        }
+        if (goal.conditionMode === 'rising-edge' && lastFiredAt && lastFiredAt >= changedAt) {
+          return ['Condition is still true, already fired on this rising edge'];
+        }
+        if (goal.cooldown && lastFiredAt) {
+          return [`Condition is true, cooling down until ${new Date(lastFiredAt.getTime() + goal.cooldown).toISOString()}`];
+        }
+        return ['Condition is true, fires at the next check'];
+      }
+
+      case 'event': {
+        const names = (goal.events ?? []).map(sub => typeof sub === 'string' ? sub : sub.event);
+        return [names.length > 0 ? `Waiting for event: ${names.join(', ')}` : 'Waiting for triggerGoal()'];
+      }
+
+      case 'completion':
+        return explanation.blockedBy ? [] : ['Dependencies completed'];
+
+      default:
+        return [];
+    }
+  }
+
+  private getDisabledReason(goal: Goal): GoalDisabledReason | undefined {
+    if (goal.enabled) return undefined;
+    if (goal.deadLetter) return 'max-retries';
+    if (goal.schedule?.maxRuns && (goal.schedule.runsCompleted ?? 0) >= goal.schedule.maxRuns) return 'max-runs';
+    return 'manual';
+  }
+
+  /**
+   * Debug record of why a due goal did not start (only when the reasons change)
+   *
+   * Goes to the log, the goal's history and the audit log.
+   */
+  private logNotRunning(goal: Goal): void {
+    if (!this.config.debugLogging) return;
+
+    const reasons = this.explainGoal(goal.id)!.reasons;
+    const summary = reasons.join('; ');
+    if (this.debugReasons.get(goal.id) === summary) return;
+
+    this.debugReasons.set(goal.id, summary);
+    this.log(`Goal not run: ${goal.id} - ${summary}`);
+
+    const at = this.currentTime();
+    this.getHistory(goal.id).recordNotRun({ at, reasons });
+    this.audit?.append({
+      timestamp: at.toISOString(),
+      source: 'goal-loop',
+      goalId: goal.id,
+      type: goal.type,
+      priority: goal.priority,
+      trigger: goal.trigger,
+      outcome: 'not-run',
+      message: summary,
+    }).catch(error => {
+      this.emit('auditError', error);
+    });
+  }
+
+  /**
+   * Debug record for goals that fell due while no run can start
+   * (paused, draining or every slot busy)
+   */
+  private logDueNotRunning(): void {
+    if (!this.config.debugLogging) return;
+
+    const now = this.clock.now();
+    for (const [id, at] of this.wakeTimes) {
+      const goal = this.goals.get(id);
+      if (goal && at <= now && !this.currentlyExecuting.has(id)) {
+        this.logNotRunning(goal);
+      }
     }
+  }
+
+  /**
+   * Ready goals waiting for a slot, next to run first
+   */
+  private getQueue(): GoalStatus[] {
+    return Array.from(this.readySince.keys())
+      .map(id => this.getGoalStatus(id)!)
+      .sort((a, b) =>
+        b.effectivePriority - a.effectivePriority ||
+        a.waitingSince!.getTime() - b.waitingSince!.getTime()
+      );
+  }
+
+  /**
+   * Get a goal's recent runs (oldest first)
+   */
+  getGoalHistory(id: string): GoalRunRecord[] {
+    return this.histories.get(id)?.getRuns() ?? [];
+  }
+
+  /**
+   * Get why a goal's due runs were held back (recorded with debugLogging)
+   */
+  getNotRunHistory(id: string): GoalNotRunRecord[] {
+    return this.histories.get(id)?.getNotRuns() ?? [];
+  }
+
+  /**
+   * Get run statistics for a goal (over its history window)
+   */
+  getGoalStats(id: string): GoalStats | undefined {
+    if (!this.goals.has(id)) return undefined;
+    return this.getHistory(id).getStats();
+  }
 
-    await this.executeGoal(goal);
+  /**
+   * Read goal runs from the audit log (oldest first)
+   *
+   * Empty when logging is disabled.
+   */
+  async readAuditLog(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    return this.audit ? this.audit.read(query) : [];
   }
 
   /**
@@ -337,31 +2412,401 @@ export class GoalLoop extends EventEmitter {
    */
   getStatus(): {
     running: boolean;
+    mode: GoalLoopMode;
+    pausedTypes: GoalType[];
     totalGoals: number;
     enabledGoals: number;
     executingGoals: number;
+    deadLetterGoals: number;
+    pendingApprovals: number;
+    runStats: {
+      totalRuns: number;
+      successRate?: number; // over every goal's history window
+      failingGoals: string[]; // last run failed
+      flakyGoals: string[]; // both successes and failures in the window
+    };
+    queue: GoalStatus[]; // ready goals waiting for a slot, next to run first
+    locks: Record<string, number>; // lock key -> running holders
     config: GoalLoopConfig;
   } {
+    const stats = Array.from(this.histories.values()).map(history => history.getStats());
+    const successes = stats.reduce((sum, s) => sum + s.successes, 0);
+    const failures = stats.reduce((sum, s) => sum + s.failures, 0);
+
     return {
       running: this.running,
+      mode: this.running ? this.mode : 'stopped',
+      pausedTypes: Array.from(this.pausedTypes),
       totalGoals: this.goals.size,
       enabledGoals: Array.from(this.goals.values()).filter(g => g.enabled).length,
       executingGoals: this.currentlyExecuting.size,
+      deadLetterGoals: this.getDeadLetters().length,
+      pendingApprovals: this.getPendingApprovals().length,
+      runStats: {
+        totalRuns: stats.reduce((sum, s) => sum + s.totalRuns, 0),
+        successRate: successes + failures > 0 ? successes / (successes + failures) : undefined,
+        failingGoals: stats.filter(s => s.consecutiveFailures > 0).map(s => s.goalId),
+        flakyGoals: stats.filter(s => s.successes > 0 && s.failures > 0).map(s => s.goalId),
+      },
+      queue: this.getQueue(),
+      locks: this.lockTable.snapshot(),
       config: this.config,
     };
   }
 
+  /**
+   * Reload goals from the store
+   *
+   * Stored state is merged into goals already added under the same id;
+   * other stored goals are rebuilt from their registered handlers. Records
+   * that cannot be rebuilt are kept in the store until re-added.
+   */
+  private async restoreGoals(): Promise<void> {
+    if (!this.store) return;
+
+    let stored: StoredGoal[];
+    try {
+      stored = await this.store.load();
+    } catch (error) {
+      this.emit('storeError', error);
+      this.log(`Goal store load failed: ${(error as Error).message}`);
+      return;
+    }
+
+    let restored = 0;
+    for (const record of stored) {
+      try {
+        if (this.restoreGoal(record)) {
+          restored++;
+          continue;
+        }
+      } catch (error) {
+        this.emit('storeError', error);
+        this.log(`Goal not restored: ${record.id} (${(error as Error).message})`);
+      }
+      if (!this.goals.has(record.id)) this.unrestoredGoals.set(record.id, record);
+    }
+
+    this.log(`Goals restored: ${restored}/${stored.length}`);
+  }
+
+  /**
+   * Restore one stored goal, or return false if it cannot be rebuilt yet
+   */
+  private restoreGoal(record: StoredGoal): boolean {
+    const existing = this.goals.get(record.id);
+    if (existing) {
+      this.applyStoredState(existing, record);
+      return true;
+    }
+
+    if (!record.task && (!record.actionName || !this.actionHandlers.has(record.actionName))) {
+      this.log(`Goal not restored (no registered action): ${record.id}`);
+      return false;
+    }
+
+    if (this.goals.size >= this.config.maxTotalGoals) {
+      this.log(`Goal not restored (maximum goals reached): ${record.id}`);
+      return false;
+    }
+
+    const goal: Goal = {
+      id: record.id,
+      type: record.type,
+      description: record.description,
+      priority: record.priority,
+      trigger: record.trigger,
+      actionName: record.actionName,
+      conditionName: record.conditionName,
+      params: record.params,
+      pollInterval: record.pollInterval,
+      concurrencyKey: record.concurrencyKey,
+      resources: record.resources,
+      requiresApproval: record.requiresApproval,
+      definitionFile: record.definitionFile,
+      escalation: record.escalation,
+      parentId: record.parentId,
+      childPolicy: record.childPolicy,
+      task: record.task,
+      conditionMode: record.conditionMode,
+      debounce: record.debounce,
+      cooldown: record.cooldown,
+      timeout: record.timeout,
+      maxRetries: record.maxRetries,
+      retryPolicy: record.retryPolicy,
+      dependsOn: record.dependsOn,
+      events: record.events,
+      action: this.resolveAction(record),
+      condition: this.resolveCondition(record),
+      createdAt: new Date(record.createdAt),
+      enabled: record.enabled,
+    };
+    this.applyStoredState(goal, record);
+
+    this.goals.set(goal.id, goal);
+    this.emit('goalRestored', goal);
+    return true;
+  }
+
+  private async applyGoalsFile(filePath: string): Promise<GoalFileReloadResult> {
+    const result: GoalFileReloadResult = { path: filePath, added: [], updated: [], removed: [], errors: [] };
+
+    let parsed: GoalFileParseResult;
+    try {
+      parsed = await loadGoalFile(filePath, {
+        hasAction: name => this.actionHandlers.has(name),
+        hasCondition: name => this.conditionHandlers.has(name),
+      }, this.currentTime());
+    } catch (error) {
+      result.error = (error as Error).message;
+      this.emit('goalsFileError', result);
+      this.log(`Goals file not loaded: ${filePath} (${result.error})`);
+      return result;
+    }
+
+    result.errors.push(...parsed.errors);
+
+    // Removals first, so renamed goals do not count toward maxTotalGoals twice
+    for (const id of findRemovedGoals(this.getAllGoals(), filePath, parsed)) {
+      this.removeGoal(id);
+      result.removed.push(id);
+    }
+
+    for (const { index, definition, enabled, signature } of parsed.goals) {
+      const id = definition.id;
+      const existing = this.goals.get(id);
+      if (existing && this.goalFileSignatures.get(id) === signature) continue;
+
+      try {
+        if (!existing) {
+          this.addGoal({ ...definition, definitionFile: filePath });
+          result.added.push(id);
+        } else if (existing.definitionFile !== filePath) {
+          throw new Error(`Goal already exists: ${id} (not defined in ${filePath})`);
+        } else {
+          this.replaceGoal(existing, { ...definition, definitionFile: filePath });
+          result.updated.push(id);
+        }
+
+        if (enabled !== undefined && this.goals.get(id)!.enabled !== enabled) {
+          this.setGoalEnabled(id, enabled);
+        }
+        this.goalFileSignatures.set(id, signature);
+      } catch (error) {
+        result.errors.push({ index, id, errors: [(error as Error).message] });
+      }
+    }
+
+    for (const entry of result.errors) {
+      this.log(`Goals file entry ${entry.index}${entry.id ? ` (${entry.id})` : ''} invalid: ${entry.errors.join('; ')}`);
+    }
+    this.log(
+      `Goals file loaded: ${filePath} (+${result.added.length} ~${result.updated.length} -${result.removed.length}, ${result.errors.length} invalid)`
+    );
+    this.emit('goalsFileLoaded', result);
+
+    return result;
+  }
+
+  /**
+   * Swap in a new definition for a goal, keeping its run state
+   * (see mergeReloadedGoal)
+   *
+   * A run in progress finishes with the action it started with.
+   */
+  private replaceGoal(previous: Goal, definition: GoalDefinition & { id: string }): void {
+    const id = definition.id;
+    const goal = mergeReloadedGoal(previous, {
+      ...definition,
+      schedule: definition.schedule && this.toSchedule(definition.schedule),
+      action: definition.action ?? this.resolveAction(definition),
+      condition: definition.condition ?? this.resolveCondition(definition),
+    });
+
+    const cycle = findDependencyCycle(id, goalId =>
+      goalId === id
+        ? normalizeDependencies(goal.dependsOn)
+        : normalizeDependencies(this.goals.get(goalId)?.dependsOn)
+    );
+    if (cycle) {
+      throw new Error(`Goal dependency cycle detected: ${cycle.join(' -> ')}`);
+    }
+
+    // Update in place, so a run in flight records its outcome on the goal the loop holds
+    for (const key of Object.keys(previous) as (keyof Goal)[]) {
+      if (!(key in goal)) delete (previous as Partial<Goal>)[key];
+    }
+    Object.assign(previous, goal);
+
+    this.reschedule(previous);
+    this.rescheduleDependents(id);
+    this.armDeadline(previous);
+    this.emit('goalUpdated', previous);
+    this.log(`Goal updated: ${id} (${previous.description})`);
+    this.persist();
+  }
+
+  /**
+   * Reload the goals file whenever it changes
+   */
+  private watchGoalsFile(): void {
+    const filePath = this.config.goalsFile!;
+
+    try {
+      this.stopWatchingGoals = watchGoalFile(filePath, () => {
+        this.reloadGoalsFile().catch(error => {
+          this.log(`Goals file reload failed: ${(error as Error).message}`);
+        });
+      }, (error) => {
+        this.stopWatchingGoals = undefined;
+        this.emit('goalsFileError', { path: filePath, error: error.message });
+        this.log(`Goals file no longer watched: ${filePath} (${error.message})`);
+      });
+    } catch (error) {
+      this.emit('goalsFileError', { path: filePath, error: (error as Error).message });
+      this.log(`Goals file not watched: ${filePath} (${(error as Error).message})`);
+    }
+  }
+
+  /**
+   * Copy persisted schedule and retry state onto a goal
+   */
+  private applyStoredState(goal: Goal, record: StoredGoal): void {
+    goal.createdAt = new Date(record.createdAt);
+    goal.lastRun = record.lastRun ? new Date(record.lastRun) : undefined;
+    goal.lastOutcome = record.lastOutcome;
+    goal.lastCompletedAt = record.lastCompletedAt ? new Date(record.lastCompletedAt) : undefined;
+    goal.enabled = record.enabled;
+    goal.retries = record.retries ?? 0;
+    goal.backoffUntil = record.backoffUntil ? new Date(record.backoffUntil) : undefined;
+    goal.settledOutcome = record.settledOutcome;
+    goal.settledAt = record.settledAt ? new Date(record.settledAt) : undefined;
+    goal.pendingApproval = record.pendingApproval && {
+      requestedAt: new Date(record.pendingApproval.requestedAt),
+      expiresAt: record.pendingApproval.expiresAt ? new Date(record.pendingApproval.expiresAt) : undefined,
+      approved: record.pendingApproval.approved,
+      preview: record.pendingApproval.preview,
+      event: record.pendingApproval.event && {
+        ...record.pendingApproval.event,
+        publishedAt: new Date(record.pendingApproval.event.publishedAt),
+      },
+    };
+    goal.deadline = record.deadline && {
+      at: new Date(record.deadline.at),
+      every: record.deadline.every,
+    };
+    goal.conditionState = record.conditionState && {
+      value: record.conditionState.value,
+      changedAt: new Date(record.conditionState.changedAt),
+      lastFiredAt: record.conditionState.lastFiredAt ? new Date(record.conditionState.lastFiredAt) : undefined,
+    };
+    goal.deadLetter = record.deadLetter && {
+      ...record.deadLetter,
+      failedAt: new Date(record.deadLetter.failedAt),
+    };
+
+    if (record.schedule) {
+      goal.schedule = {
+        ...goal.schedule,
+        nextRun: new Date(record.schedule.nextRun),
+        interval: goal.schedule?.interval ?? record.schedule.interval,
+        cron: goal.schedule?.cron ?? record.schedule.cron,
+        timezone: goal.schedule?.timezone ?? record.schedule.timezone,
+        maxRuns: goal.schedule?.maxRuns ?? record.schedule.maxRuns,
+        misfirePolicy: goal.schedule?.misfirePolicy ?? record.schedule.misfirePolicy,
+        misfireGraceTime: goal.schedule?.misfireGraceTime ?? record.schedule.misfireGraceTime,
+        maxCatchUpRuns: goal.schedule?.maxCatchUpRuns ?? record.schedule.maxCatchUpRuns,
+        adaptive: goal.schedule?.adaptive ?? record.schedule.adaptive,
+        runsCompleted: record.schedule.runsCompleted ?? 0,
+        catchUpRuns: record.schedule.catchUpRuns,
+        currentInterval: record.schedule.currentInterval,
+      };
+    }
+  }
+
+  /**
+   * A goal's run history, created on first use
+   */
+  private getHistory(goalId: string): GoalHistory {
+    let history = this.histories.get(goalId);
+    if (!history) {
+      history = new GoalHistory(goalId, this.config.historySize);
+      this.histories.set(goalId, history);
+    }
+    return history;
+  }
+
+  /**
+   * Dependencies blocking a goal (fresh completions for `completion` goals)
+   */
+  private getBlockers(goal: Goal): DependencyBlocker[] {
+    const skippedAt = this.approvalSkippedAt.get(goal.id);
+    const lastCompletedAt = goal.lastCompletedAt;
+    const since = skippedAt && (!lastCompletedAt || skippedAt > lastCompletedAt) ? skippedAt : lastCompletedAt;
+
+    return getDependencyBlockers(goal, id => this.goals.get(id), goal.trigger === 'completion', since);
+  }
+
+  /**
+   * Bind a goal's named action to its registered handler, or a worker
+   * task to the orchestrator
+   */
+  private resolveAction(goal: Pick<Goal, 'id' | 'actionName' | 'params' | 'task'>): Goal['action'] {
+    if (goal.task) {
+      if (!this.config.orchestrator) {
+        throw new Error(`Worker goals require an orchestrator (config.orchestrator): ${goal.id}`);
+      }
+      const task = goal.task;
+      if (!this.config.orchestrator.hasTaskType(task.type)) {
+        throw new Error(`Unknown task type: ${task.type} (register a handler in the orchestrator's taskHandlers): ${goal.id}`);
+      }
+      return (context) => this.runWorkerGoal(goal.id, task, context);
+    }
+
+    const handler = goal.actionName ? this.actionHandlers.get(goal.actionName) : undefined;
+    if (!handler) {
+      throw new Error(
+        goal.actionName
+          ? `Action not registered: ${goal.actionName}`
+          : 'Goal requires an action or a registered actionName'
+      );
+    }
+    return (context) => handler(goal.params ?? {}, context);
+  }
+
+  /**
+   * Bind a goal's named condition to its registered handler
+   */
+  private resolveCondition(goal: Pick<Goal, 'conditionName' | 'params'>): Goal['condition'] {
+    if (!goal.conditionName) return undefined;
+
+    const handler = this.conditionHandlers.get(goal.conditionName);
+    if (!handler) {
+      throw new Error(`Condition not registered: ${goal.conditionName}`);
+    }
+    return () => handler(goal.params ?? {});
+  }
+
+  /**
+   * Write all goals to the store (serialized, fire-and-forget)
+   */
+  private persist(): void {
+    if (!this.store) return;
+
+    const store = this.store;
+    this.pendingSave = this.pendingSave
+      .then(() => store.save([...this.getAllGoals().map(serializeGoal), ...this.unrestoredGoals.values()]))
+      .catch(error => {
+        this.emit('storeError', error);
+        this.log(`Goal store save failed: ${(error as Error).message}`);
+      });
+  }
+
   /**
    * Priority comparison
    */
   private comparePriority(a: GoalPriority, b: GoalPriority): number {
-    const order: Record<GoalPriority, number> = {
-      critical: 4,
-      high: 3,
-      normal: 2,
-      low: 1,
-    };
-    return order[b] - order[a];
+    return PRIORITY_RANK[b] - PRIORITY_RANK[a];
   }
 
   /**
@@ -370,74 +2815,230 @@ export class GoalLoop extends EventEmitter {
   private log(message: string): void {
     if (!this.config.enableLogging) return;
 
-    const timestamp = new Date().toISOString();
+    const timestamp = this.currentTime().toISOString();
     const logEntry = `[${timestamp}] ${message}\n`;
 
-    // Emit for external logging
+    // Emit for external logging (goal runs also go to the audit log)
     this.emit('log', logEntry);
 
-    // TODO: Write to file system (requires fs access)
-    // For now, just console.log in development
+    // Console echo in development
     if (process.env.NODE_ENV === 'development') {
       console.log(`[GoalLoop] ${message}`);
     }
   }
 
   /**
-   * Sleep helper
+   * Current time as a Date (from the configured clock)
+   */
+  private currentTime(): Date {
+    return new Date(this.clock.now());
+  }
+
+  /**
+   * Wait for in-flight runs to settle, giving up after `timeoutMs` of real time
+   *
+   * Runs are awaited rather than polled on the loop's clock, so a virtual
+   * clock nobody advances does not hold up stop() or drain(). Resolves
+   * false on timeout.
+   */
+  private async waitForRuns(timeoutMs?: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = timeoutMs === undefined
+      ? undefined
+      : new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(false), timeoutMs); });
+
+    try {
+      // Runs started while waiting (e.g. by triggerGoal) are waited for too
+      while (this.inFlightRuns.size > 0) {
+        const settled = Promise.allSettled(this.inFlightRuns).then(() => true);
+        if (!(await (timedOut ? Promise.race([settled, timedOut]) : settled))) return false;
+      }
+      return true;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Sleep between ticks; stop() and newly due goals cut it short
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private idle(ms: number): Promise<void> {
+    this.idleUntil = this.clock.now() + ms;
+
+    return new Promise(resolve => {
+      const wake = () => {
+        this.wakeLoop = undefined;
+        this.idleUntil = Infinity;
+        resolve();
+      };
+      const timer = this.clock.setTimeout(() => {
+        // A timer this late means the host was suspended, not ticking
+        if (this.clock.now() - this.idleUntil > OVERSLEEP_MS) {
+          this.tickingSince = this.clock.now();
+        }
+        wake();
+      }, ms);
+
+      this.wakeLoop = () => {
+        this.clock.clearTimeout(timer);
+        wake();
+      };
+    });
   }
 }
 
+/**
+ * Backoff delay before retry number `attempt` (1-based)
+ */
+export function computeBackoffDelay(
+  policy: GoalRetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    policy.maxDelay,
+    policy.initialDelay * Math.pow(policy.multiplier, Math.max(0, attempt - 1))
+  );
+  const spread = base * policy.jitter * (random() * 2 - 1);
+
+  return Math.round(Math.min(policy.maxDelay, Math.max(0, base + spread)));
+}
+
 /**
  * Helper function to create time-based goals easily
+ *
+ * Accepts either a fixed `interval` or a `cron` expression. The first run
+ * is set by addGoal() from the loop's clock: `startDelay` after it is
+ * added, or with cron the first occurrence after that.
  */
 export function createTimeBasedGoal(
   description: string,
-  action: () => Promise<GoalResult>,
+  action: Goal['action'],
   options: {
     type?: GoalType;
     priority?: GoalPriority;
-    interval: number; // milliseconds
+    interval?: number; // milliseconds
+    cron?: string; // minute hour day-of-month month day-of-week
+    timezone?: string; // IANA timezone for cron
     startDelay?: number; // milliseconds before first run
     maxRuns?: number;
+    misfirePolicy?: GoalMisfirePolicy; // default: 'coalesce'
+    misfireGraceTime?: number; // milliseconds (default: 60s)
+    maxCatchUpRuns?: number; // cap for 'run-all' (default: 10)
+    adaptive?: GoalAdaptiveInterval; // back off while results are unchanged
+    id?: string; // stable id, keeps persisted schedule state across restarts
+  }
+): GoalDefinition {
+  if (!options.interval && !options.cron) {
+    throw new Error('Time-based goal requires an interval or a cron expression');
+  }
+
+  // Fail fast on malformed cron expressions or timezones
+  if (options.cron) {
+    parseCron(options.cron);
+  }
+  if (options.timezone && !isValidTimezone(options.timezone)) {
+    throw new Error(`Invalid timezone: ${options.timezone}`);
   }
-): Omit<Goal, 'id' | 'createdAt' | 'enabled'> {
+
   return {
+    id: options.id,
     type: options.type ?? 'monitor',
     description,
     priority: options.priority ?? 'normal',
     trigger: 'time',
     action,
     schedule: {
-      nextRun: new Date(Date.now() + (options.startDelay ?? 0)),
+      startDelay: options.startDelay,
       interval: options.interval,
+      cron: options.cron,
+      timezone: options.timezone,
       maxRuns: options.maxRuns,
+      misfirePolicy: options.misfirePolicy,
+      misfireGraceTime: options.misfireGraceTime,
+      maxCatchUpRuns: options.maxCatchUpRuns,
+      adaptive: options.adaptive,
       runsCompleted: 0,
     },
   };
 }
 
+/**
+ * Helper function to create event-triggered goals easily
+ */
+export function createEventBasedGoal(
+  description: string,
+  events: Array<string | GoalEventSubscription>,
+  action: Goal['action'],
+  options: {
+    type?: GoalType;
+    priority?: GoalPriority;
+    id?: string;
+  } = {}
+): GoalDefinition {
+  return {
+    id: options.id,
+    type: options.type ?? 'monitor',
+    description,
+    priority: options.priority ?? 'normal',
+    trigger: 'event',
+    events,
+    action,
+  };
+}
+
+/**
+ * Helper function to create goals that run after their dependencies complete
+ */
+export function createCompletionBasedGoal(
+  description: string,
+  dependsOn: Array<string | GoalDependency>,
+  action: Goal['action'],
+  options: {
+    type?: GoalType;
+    priority?: GoalPriority;
+    id?: string;
+  } = {}
+): GoalDefinition {
+  return {
+    id: options.id,
+    type: options.type ?? 'optimize',
+    description,
+    priority: options.priority ?? 'normal',
+    trigger: 'completion',
+    dependsOn,
+    action,
+  };
+}
+
 /**
  * Helper function to create condition-based goals easily
  */
 export function createConditionBasedGoal(
   description: string,
   condition: () => boolean | Promise<boolean>,
-  action: () => Promise<GoalResult>,
+  action: Goal['action'],
   options: {
     type?: GoalType;
     priority?: GoalPriority;
+    pollInterval?: number; // milliseconds between condition checks
+    conditionMode?: GoalConditionMode; // default: 'level'
+    debounce?: number; // milliseconds the condition must hold before firing
+    cooldown?: number; // minimum milliseconds between runs
+    id?: string;
   } = {}
-): Omit<Goal, 'id' | 'createdAt' | 'enabled'> {
+): GoalDefinition {
   return {
+    id: options.id,
     type: options.type ?? 'monitor',
     description,
     priority: options.priority ?? 'normal',
     trigger: 'condition',
     condition,
+    pollInterval: options.pollInterval,
+    conditionMode: options.conditionMode,
+    debounce: options.debounce,
+    cooldown: options.cooldown,
     action,
   };
 }
@@ -0,0 +1,114 @@
+/**
+ * Goal Misfire - Missed-run policy after downtime or sleep
+ *
+ * A time-based run is missed when it fell due while the loop was not
+ * ticking (stopped, paused, its type paused, or the host asleep) and is
+ * later than the goal's grace window. The goal's policy then decides
+ * whether to run once for all missed occurrences, run each of them, or
+ * skip to the next future occurrence.
+ */
+
+import { nextCronOccurrence } from './goal-cron.js';
+import type { Goal, GoalSchedule } from './goal-loop.js';
+
+/**
+ * What to do with occurrences missed while the loop was not running:
+ * run once for all of them, run each (up to `maxCatchUpRuns`), or skip
+ * to the next future occurrence
+ */
+export type GoalMisfirePolicy = 'coalesce' | 'run-all' | 'skip';
+
+/**
+ * Payload of the `runsMissed` event
+ */
+export interface GoalMisfire {
+  goal: Goal;
+  policy: GoalMisfirePolicy;
+  missed: Date[]; // overdue occurrences, oldest first
+  runs: number; // runs that will execute for them
+  nextRun?: Date; // next occurrence after a skip
+}
+
+const DEFAULT_MISFIRE_GRACE_MS = 60 * 1000;
+const DEFAULT_MAX_CATCH_UP_RUNS = 10;
+
+// Cap on occurrences listed in a `runsMissed` event
+const MAX_MISSED_RUNS = 1000;
+
+/**
+ * Whether the scheduled run counts as missed
+ *
+ * `tickingSince` is when the loop (or the goal's type) last started
+ * ticking; runs due after it were only delayed, not missed.
+ */
+export function isMisfire(schedule: GoalSchedule, now: number, tickingSince: number): boolean {
+  const due = schedule.nextRun.getTime();
+  return now - due > (schedule.misfireGraceTime ?? DEFAULT_MISFIRE_GRACE_MS) && due < tickingSince;
+}
+
+/**
+ * Apply the goal's misfire policy to its schedule
+ *
+ * `skip` moves `nextRun` past `now` (or disables a one-shot goal);
+ * `run-all` sets the catch-up runs still owed after this one.
+ */
+export function applyMisfirePolicy(goal: Goal, now: number): GoalMisfire {
+  const schedule = goal.schedule!;
+  const policy = schedule.misfirePolicy ?? 'coalesce';
+  const missed = getMissedRuns(schedule, now);
+  const misfire: GoalMisfire = { goal, policy, missed, runs: 1 };
+
+  if (policy === 'skip') {
+    misfire.runs = 0;
+    misfire.nextRun = getNextOccurrence(schedule, now);
+    if (misfire.nextRun) {
+      schedule.nextRun = misfire.nextRun;
+    } else {
+      goal.enabled = false; // one-shot
+    }
+  } else if (policy === 'run-all') {
+    misfire.runs = Math.min(missed.length, schedule.maxCatchUpRuns ?? DEFAULT_MAX_CATCH_UP_RUNS);
+    schedule.catchUpRuns = misfire.runs - 1;
+  }
+
+  return misfire;
+}
+
+/**
+ * Occurrences from `nextRun` up to `now`
+ */
+function getMissedRuns(schedule: GoalSchedule, now: number): Date[] {
+  const missed: Date[] = [];
+  let at: Date | undefined = schedule.nextRun;
+
+  while (at && at.getTime() <= now && missed.length < MAX_MISSED_RUNS) {
+    missed.push(at);
+    at = schedule.cron
+      ? nextCronOccurrence(schedule.cron, at, schedule.timezone)
+      : schedule.interval ? new Date(at.getTime() + getInterval(schedule)) : undefined;
+  }
+
+  return missed;
+}
+
+/**
+ * First occurrence after `now`, keeping an interval schedule's phase
+ */
+function getNextOccurrence(schedule: GoalSchedule, now: number): Date | undefined {
+  if (schedule.cron) {
+    return nextCronOccurrence(schedule.cron, new Date(now), schedule.timezone);
+  }
+  if (!schedule.interval) return undefined;
+
+  const interval = getInterval(schedule);
+  const due = schedule.nextRun.getTime();
+  const elapsed = Math.floor((now - due) / interval) + 1;
+  return new Date(due + elapsed * interval);
+}
+
+/**
+ * Interval between runs, as adapted to recent results
+ */
+function getInterval(schedule: GoalSchedule): number {
+  return schedule.currentInterval ?? schedule.interval!;
+}
@@ -0,0 +1,81 @@
+/**
+ * Tests for Goal Store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { JsonFileGoalStore, serializeGoal, type StoredGoal } from './goal-store';
+import type { Goal } from './goal-loop';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('JsonFileGoalStore', () => {
+  let tempDir: string;
+  let storePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'goal-store-test-'));
+    storePath = path.join(tempDir, 'memory', 'goals.json');
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should return no goals when the store file does not exist', async () => {
+    const store = new JsonFileGoalStore(storePath);
+    expect(await store.load()).toEqual([]);
+  });
+
+  it('should round-trip stored goals', async () => {
+    const store = new JsonFileGoalStore(storePath);
+    const record: StoredGoal = {
+      id: 'email-monitor',
+      type: 'monitor',
+      description: 'Monitor email',
+      priority: 'high',
+      trigger: 'time',
+      actionName: 'checkEmail',
+      params: { folder: 'inbox' },
+      schedule: {
+        nextRun: '2026-02-10T13:30:00.000Z',
+        interval: 30 * 60 * 1000,
+        runsCompleted: 4,
+      },
+      createdAt: '2026-02-10T12:00:00.000Z',
+      enabled: true,
+      retries: 1,
+    };
+
+    await store.save([record]);
+
+    const reloaded = await new JsonFileGoalStore(storePath).load();
+    expect(reloaded).toEqual([record]);
+  });
+
+  it('should serialize dates as ISO strings', () => {
+    const goal: Goal = {
+      id: 'g1',
+      type: 'learn',
+      description: 'Learn',
+      priority: 'normal',
+      trigger: 'time',
+      action: async () => ({ success: true }),
+      schedule: { nextRun: new Date('2026-02-11T03:00:00.000Z'), interval: 1000 },
+      createdAt: new Date('2026-02-10T00:00:00.000Z'),
+      lastRun: new Date('2026-02-10T03:00:00.000Z'),
+      conditionState: { value: true, changedAt: new Date('2026-02-10T02:59:00.000Z') },
+      enabled: true,
+    };
+
+    const record = serializeGoal(goal);
+    expect(record.schedule?.nextRun).toBe('2026-02-11T03:00:00.000Z');
+    expect(record.lastRun).toBe('2026-02-10T03:00:00.000Z');
+    expect(record.conditionState?.changedAt).toBe('2026-02-10T02:59:00.000Z');
+    expect(record).not.toHaveProperty('action');
+  });
+});
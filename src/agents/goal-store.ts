@@ -0,0 +1,244 @@
+/**
+ * Goal Store - Persistence for GoalLoop goals and schedule state
+ *
+ * Goals hold closures (`action`, `condition`) that cannot be serialized, so
+ * the store only keeps plain data: identity, schedule state and the names of
+ * registered handlers. GoalLoop rebinds the handlers when it reloads goals.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { GoalApprovalPreview } from './goal-approval.js';
+import type { GoalDependency, GoalOutcome } from './goal-dependencies.js';
+import type { GoalWorkerTask } from './goal-worker.js';
+import type {
+  Goal,
+  GoalAdaptiveInterval,
+  GoalConditionMode,
+  GoalEscalation,
+  GoalPriority,
+  GoalRetryPolicy,
+  GoalTrigger,
+  GoalType,
+} from './goal-loop.js';
+import type { GoalMisfirePolicy } from './goal-misfire.js';
+import type { GoalChildPolicy } from './goal-subgoals.js';
+
+/**
+ * Serializable snapshot of a goal
+ */
+export interface StoredGoal {
+  id: string;
+  type: GoalType;
+  description: string;
+  priority: GoalPriority;
+  trigger: GoalTrigger;
+
+  // Named handlers (resolved through the GoalLoop registry)
+  actionName?: string;
+  conditionName?: string;
+  params?: Record<string, any>;
+  task?: GoalWorkerTask; // worker goals need no registered action
+  pollInterval?: number;
+  conditionMode?: GoalConditionMode;
+  debounce?: number;
+  cooldown?: number;
+  conditionState?: {
+    value: boolean;
+    changedAt: string; // ISO timestamp
+    lastFiredAt?: string; // ISO timestamp
+  };
+
+  dependsOn?: Array<string | GoalDependency>;
+
+  // Event subscriptions (function filters are not persisted)
+  events?: Array<string | { event: string; filter?: Record<string, any> }>;
+
+  schedule?: {
+    nextRun: string; // ISO timestamp
+    interval?: number;
+    cron?: string;
+    timezone?: string;
+    maxRuns?: number;
+    runsCompleted?: number;
+    misfirePolicy?: GoalMisfirePolicy;
+    misfireGraceTime?: number;
+    maxCatchUpRuns?: number;
+    catchUpRuns?: number;
+    adaptive?: GoalAdaptiveInterval;
+    currentInterval?: number;
+  };
+
+  createdAt: string; // ISO timestamp
+  lastRun?: string; // ISO timestamp
+  lastOutcome?: GoalOutcome;
+  lastCompletedAt?: string; // ISO timestamp
+  enabled: boolean;
+  timeout?: number;
+  concurrencyKey?: string;
+  resources?: string[];
+  maxRetries?: number;
+  retries?: number;
+  retryPolicy?: Partial<GoalRetryPolicy> | false;
+  backoffUntil?: string; // ISO timestamp
+  deadLetter?: {
+    error: string;
+    failedAt: string; // ISO timestamp
+    retries: number;
+  };
+  requiresApproval?: boolean;
+  definitionFile?: string;
+  deadline?: {
+    at: string; // ISO timestamp
+    every?: number;
+  };
+  escalation?: GoalEscalation;
+  parentId?: string;
+  childPolicy?: GoalChildPolicy;
+  settledOutcome?: GoalOutcome;
+  settledAt?: string; // ISO timestamp
+  pendingApproval?: {
+    requestedAt: string; // ISO timestamp
+    expiresAt?: string; // ISO timestamp
+    approved?: boolean;
+    preview: GoalApprovalPreview;
+    event?: { name: string; payload?: any; publishedAt: string };
+  };
+}
+
+/**
+ * Pluggable storage backend for goals
+ */
+export interface GoalStore {
+  load(): Promise<StoredGoal[]>;
+  save(goals: StoredGoal[]): Promise<void>;
+}
+
+interface GoalStoreFile {
+  version: number;
+  savedAt: string;
+  goals: StoredGoal[];
+}
+
+const STORE_VERSION = 1;
+
+/**
+ * JSON file goal store (default)
+ *
+ * Writes to a temporary file and renames it over the target so a crash
+ * mid-write never leaves a truncated store behind.
+ */
+export class JsonFileGoalStore implements GoalStore {
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<StoredGoal[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(content) as GoalStoreFile;
+      return Array.isArray(data.goals) ? data.goals : [];
+    } catch (error) {
+      // No store yet (first run)
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async save(goals: StoredGoal[]): Promise<void> {
+    const data: GoalStoreFile = {
+      version: STORE_VERSION,
+      savedAt: new Date().toISOString(),
+      goals,
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Convert a live goal into its serializable form
+ */
+export function serializeGoal(goal: Goal): StoredGoal {
+  return {
+    id: goal.id,
+    type: goal.type,
+    description: goal.description,
+    priority: goal.priority,
+    trigger: goal.trigger,
+    actionName: goal.actionName,
+    conditionName: goal.conditionName,
+    params: goal.params,
+    task: goal.task,
+    pollInterval: goal.pollInterval,
+    conditionMode: goal.conditionMode,
+    debounce: goal.debounce,
+    cooldown: goal.cooldown,
+    conditionState: goal.conditionState && {
+      value: goal.conditionState.value,
+      changedAt: goal.conditionState.changedAt.toISOString(),
+      lastFiredAt: goal.conditionState.lastFiredAt?.toISOString(),
+    },
+    dependsOn: goal.dependsOn,
+    // Dropped rather than widened: an unfiltered copy would over-fire
+    events: goal.events?.filter(
+      (sub): sub is string | { event: string; filter?: Record<string, any> } =>
+        typeof sub === 'string' || typeof sub.filter !== 'function'
+    ),
+    schedule: goal.schedule && {
+      nextRun: goal.schedule.nextRun.toISOString(),
+      interval: goal.schedule.interval,
+      cron: goal.schedule.cron,
+      timezone: goal.schedule.timezone,
+      maxRuns: goal.schedule.maxRuns,
+      runsCompleted: goal.schedule.runsCompleted,
+      misfirePolicy: goal.schedule.misfirePolicy,
+      misfireGraceTime: goal.schedule.misfireGraceTime,
+      maxCatchUpRuns: goal.schedule.maxCatchUpRuns,
+      catchUpRuns: goal.schedule.catchUpRuns,
+      adaptive: goal.schedule.adaptive,
+      currentInterval: goal.schedule.currentInterval,
+    },
+    createdAt: goal.createdAt.toISOString(),
+    lastRun: goal.lastRun?.toISOString(),
+    lastOutcome: goal.lastOutcome,
+    lastCompletedAt: goal.lastCompletedAt?.toISOString(),
+    enabled: goal.enabled,
+    timeout: goal.timeout,
+    concurrencyKey: goal.concurrencyKey,
+    resources: goal.resources,
+    maxRetries: goal.maxRetries,
+    retries: goal.retries,
+    retryPolicy: goal.retryPolicy,
+    backoffUntil: goal.backoffUntil?.toISOString(),
+    deadLetter: goal.deadLetter && {
+      ...goal.deadLetter,
+      failedAt: goal.deadLetter.failedAt.toISOString(),
+    },
+    requiresApproval: goal.requiresApproval,
+    definitionFile: goal.definitionFile,
+    deadline: goal.deadline && {
+      at: goal.deadline.at.toISOString(),
+      every: goal.deadline.every,
+    },
+    escalation: goal.escalation,
+    parentId: goal.parentId,
+    childPolicy: goal.childPolicy,
+    settledOutcome: goal.settledOutcome,
+    settledAt: goal.settledAt?.toISOString(),
+    pendingApproval: goal.pendingApproval && {
+      requestedAt: goal.pendingApproval.requestedAt.toISOString(),
+      expiresAt: goal.pendingApproval.expiresAt?.toISOString(),
+      approved: goal.pendingApproval.approved,
+      preview: goal.pendingApproval.preview,
+      event: goal.pendingApproval.event && {
+        ...goal.pendingApproval.event,
+        publishedAt: goal.pendingApproval.event.publishedAt.toISOString(),
+      },
+    },
+  };
+}
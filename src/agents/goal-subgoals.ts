@@ -0,0 +1,92 @@
+/**
+ * Goal Sub-Goals - Hierarchical goal decomposition
+ *
+ * A running goal may spawn sub-goals that point back at it through
+ * `parentId`. The parent's outcome follows its child policy: it succeeds
+ * once enough sub-goals succeed and fails as soon as that is out of reach.
+ * Sub-goals may spawn their own, so progress is computed over the tree.
+ */
+
+import type { GoalOutcome } from './goal-dependencies.js';
+import type { Goal } from './goal-loop.js';
+
+/**
+ * How many of a parent's sub-goals must succeed for the parent to
+ * complete; it fails as soon as that is out of reach
+ */
+export type GoalChildPolicy = 'all' | 'any' | { quorum: number };
+
+/**
+ * A parent goal's progress, derived from its sub-goals
+ */
+export interface GoalProgress {
+  policy: GoalChildPolicy;
+  total: number;
+  succeeded: number;
+  failed: number;
+  pending: number;
+  required: number; // successes needed
+  progress: number; // 0..1 toward `required` (open sub-goals count their own progress)
+  outcome?: GoalOutcome; // set once the tree has settled
+}
+
+/**
+ * Node of GoalLoop.getAllGoals({ tree: true })
+ */
+export interface GoalTreeNode {
+  goal: Goal;
+  progress?: GoalProgress; // set for goals with sub-goals
+  children: GoalTreeNode[];
+}
+
+/**
+ * Progress of a goal toward its child policy, or undefined without sub-goals
+ */
+export function getGoalProgress(goal: Goal, getChildren: (id: string) => Goal[]): GoalProgress | undefined {
+  const children = getChildren(goal.id);
+  if (children.length === 0) return undefined;
+
+  const policy = goal.childPolicy ?? 'all';
+  const succeeded = children.filter(child => child.settledOutcome === 'success').length;
+  const failed = children.filter(child => child.settledOutcome === 'failure').length;
+  const required = policy === 'all' ? children.length : policy === 'any' ? 1 : policy.quorum;
+
+  // Open sub-goals with their own sub-goals count their partial progress
+  const partial = children
+    .filter(child => !child.settledOutcome)
+    .map(child => getGoalProgress(child, getChildren)?.progress ?? 0);
+  const done = policy === 'any'
+    ? Math.max(succeeded, ...partial)
+    : succeeded + partial.reduce((sum, value) => sum + value, 0);
+
+  return {
+    policy,
+    total: children.length,
+    succeeded,
+    failed,
+    pending: children.length - succeeded - failed,
+    required,
+    progress: Math.min(1, done / required),
+    outcome: goal.settledOutcome,
+  };
+}
+
+/**
+ * The outcome a parent's sub-goals have decided, if any yet
+ */
+export function getTreeOutcome(progress: GoalProgress): GoalOutcome | undefined {
+  if (progress.succeeded >= progress.required) return 'success';
+  if (progress.succeeded + progress.pending < progress.required) return 'failure';
+  return undefined;
+}
+
+/**
+ * A goal nested with its sub-goals and their progress
+ */
+export function getGoalTree(goal: Goal, getChildren: (id: string) => Goal[]): GoalTreeNode {
+  return {
+    goal,
+    progress: getGoalProgress(goal, getChildren),
+    children: getChildren(goal.id).map(child => getGoalTree(child, getChildren)),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Goal Worker - Run GoalLoop actions on ParallelOrchestrator workers
+ *
+ * A goal with a `task` has no in-process action: each run submits the task
+ * to the orchestrator and waits for its WorkerResult, so heavy goals stay
+ * off the main event loop.
+ */
+
+import type {
+  ParallelOrchestrator,
+  WorkerProgress,
+  WorkerResult,
+  WorkerTask,
+  WorkerTaskType,
+} from './parallel-orchestrator.js';
+import type { GoalResult } from './goal-loop.js';
+
+/**
+ * Worker task run for a goal (description and priority default to the goal's)
+ *
+ * Orchestrator retries are not exposed: a failed task fails the run, and the
+ * goal's own retry policy decides what happens next.
+ */
+export interface GoalWorkerTask {
+  type: WorkerTaskType;
+  config?: Record<string, any>;
+  description?: string;
+  priority?: number; // orchestrator priority (default: goal priority rank, low 1 ... critical 4)
+  timeout?: number; // milliseconds, enforced by the orchestrator
+}
+
+export type WorkerTaskSubmission = Omit<WorkerTask, 'id' | 'onProgress' | 'onComplete' | 'onError'>;
+
+/**
+ * Turn a worker's result into the goal run's result
+ */
+export function toGoalResult(result: WorkerResult): GoalResult {
+  return {
+    success: result.success,
+    message: result.success
+      ? `Worker task ${result.taskId} completed (${result.duration}ms)`
+      : result.error ?? `Worker task ${result.taskId} failed`,
+    data: result.data,
+  };
+}
+
+/**
+ * Submit a task and resolve with its result as a GoalResult
+ *
+ * Rejects when the task errors, is cancelled or terminated by the orchestrator
+ * or cannot be queued, and when `signal` aborts (the goal timed out or was
+ * cancelled), which also cancels the task.
+ */
+export function runWorkerTask(
+  orchestrator: ParallelOrchestrator,
+  task: WorkerTaskSubmission,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (progress: WorkerProgress) => void;
+  } = {}
+): Promise<GoalResult> {
+  const { signal, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    let taskId: string | undefined;
+    let settled = false;
+
+    const finish = (settle: () => void) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      settle();
+    };
+
+    const onAbort = () => {
+      finish(() => reject(signal!.reason));
+      if (taskId) orchestrator.cancelTask(taskId, 'goal aborted');
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    orchestrator.submitTask({
+      ...task,
+      onProgress: (progress) => {
+        if (!settled) onProgress?.(progress);
+      },
+      onComplete: (result) => finish(() => resolve(toGoalResult(result))),
+      onError: (error) => finish(() => reject(error)), // also cancellations and terminations
+    }).then(
+      (id) => {
+        taskId = id;
+        // Aborted while the task was being queued
+        if (signal?.aborted) orchestrator.cancelTask(id, 'goal aborted');
+      },
+      (error) => finish(() => reject(error))
+    );
+  });
+}
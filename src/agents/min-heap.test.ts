@@ -0,0 +1,52 @@
+/**
+ * Tests for MinHeap
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MinHeap } from './min-heap';
+
+describe('MinHeap', () => {
+  it('should pop items in comparator order', () => {
+    const heap = new MinHeap<number>((a, b) => a - b);
+    for (const n of [5, 1, 4, 2, 3, 1]) heap.push(n);
+
+    const popped: number[] = [];
+    while (heap.size > 0) popped.push(heap.pop()!);
+
+    expect(popped).toEqual([1, 1, 2, 3, 4, 5]);
+    expect(heap.pop()).toBeUndefined();
+  });
+
+  it('should peek without removing', () => {
+    const heap = new MinHeap<number>((a, b) => a - b);
+    heap.push(3);
+    heap.push(2);
+
+    expect(heap.peek()).toBe(2);
+    expect(heap.size).toBe(2);
+  });
+
+  it('should remove matching items and keep heap order', () => {
+    const heap = new MinHeap<{ id: string; at: number }>((a, b) => a.at - b.at);
+    heap.push({ id: 'a', at: 30 });
+    heap.push({ id: 'b', at: 10 });
+    heap.push({ id: 'c', at: 20 });
+    heap.push({ id: 'd', at: 5 });
+
+    expect(heap.remove(item => item.id === 'd' || item.id === 'c')).toBe(2);
+    expect(heap.pop()?.id).toBe('b');
+    expect(heap.pop()?.id).toBe('a');
+  });
+
+  it('should reorder after keys change', () => {
+    const keys: Record<string, number> = { a: 1, b: 2, c: 3 };
+    const heap = new MinHeap<string>((a, b) => keys[a] - keys[b]);
+    for (const id of ['a', 'b', 'c']) heap.push(id);
+
+    keys.c = 0;
+    heap.reorder();
+
+    expect(heap.pop()).toBe('c');
+    expect(heap.pop()).toBe('a');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Min-Heap - Binary heap priority queue
+ *
+ * Generic over the item type; ordering comes from the comparator (negative
+ * when `a` should be popped before `b`). Used by GoalLoop for its wake-up
+ * schedule and by ParallelOrchestrator for its task queue.
+ */
+
+export class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Add an item
+   */
+  push(item: T): void {
+    this.items.push(item);
+    this.siftUp(this.items.length - 1);
+  }
+
+  /**
+   * Smallest item, without removing it
+   */
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  /**
+   * Remove and return the smallest item
+   */
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last;
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  /**
+   * Remove every item matching the predicate
+   */
+  remove(predicate: (item: T) => boolean): number {
+    const before = this.items.length;
+    this.items = this.items.filter(item => !predicate(item));
+
+    if (this.items.length !== before) {
+      this.heapify();
+    }
+
+    return before - this.items.length;
+  }
+
+  /**
+   * Restore heap order after the comparator's keys changed (e.g. aging)
+   */
+  reorder(): void {
+    this.heapify();
+  }
+
+  /**
+   * Items in heap order (not sorted)
+   */
+  toArray(): T[] {
+    return [...this.items];
+  }
+
+  clear(): void {
+    this.items = [];
+  }
+
+  private heapify(): void {
+    for (let i = Math.floor(this.items.length / 2) - 1; i >= 0; i--) {
+      this.siftDown(i);
+    }
+  }
+
+  private siftUp(index: number): void {
+    let child = index;
+
+    while (child > 0) {
+      const parent = (child - 1) >> 1;
+      if (this.compare(this.items[child], this.items[parent]) >= 0) break;
+
+      this.swap(child, parent);
+      child = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    let parent = index;
+    const length = this.items.length;
+
+    for (;;) {
+      const left = parent * 2 + 1;
+      const right = left + 1;
+      let smallest = parent;
+
+      if (left < length && this.compare(this.items[left], this.items[smallest]) < 0) {
+        smallest = left;
+      }
+      if (right < length && this.compare(this.items[right], this.items[smallest]) < 0) {
+        smallest = right;
+      }
+      if (smallest === parent) break;
+
+      this.swap(parent, smallest);
+      parent = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+  }
+}
@@ -241,15 +241,17 @@ export async function setupFullAutonomousSystem(
 
   await orchestrator.initialize();
 
-  // Create goal loop
+  // Create goal loop (goals with a `task` run on the orchestrator)
   const goalLoop = new GoalLoop({
     tickInterval: 1000,
     maxConcurrentGoals: 5,
     enableLogging: true,
+    orchestrator,
   });
 
   // Set up autonomous behaviors
   await setupAutonomousLearning(orchestrator, goalLoop);
+  setupWorkerGoals(goalLoop);
   await setupBackgroundEmailMonitoring(orchestrator);
   await setupSystemHealthMonitoring(orchestrator);
 
@@ -257,8 +259,11 @@ export async function setupFullAutonomousSystem(
   goalLoop.start().catch(console.error);
 
   // Event listeners
-  orchestrator.on('taskCompleted', ({ taskId, data }) => {
-    console.log(`[Orchestrator] Task completed: ${taskId}`);
+  orchestrator.on('taskCompleted', (result) => {
+    console.log(`[Orchestrator] Task completed: ${result.taskId}`);
+
+    // Wake any goals subscribed to task completions
+    goalLoop.publish('orchestrator:taskCompleted', result);
   });
 
   goalLoop.on('goalCompleted', ({ goal, result }) => {
@@ -423,6 +428,38 @@ export function createPerformanceDashboard(
   };
 }
 
+/**
+ * Example 11: Worker Goals
+ * 
+ * Scheduled goals whose work runs on orchestrator workers. The goal loop
+ * submits the task on each run and turns the WorkerResult into the goal's
+ * result, so retries, history and dependencies work as for any goal.
+ * Requires a GoalLoop created with `orchestrator`.
+ */
+export function setupWorkerGoals(goalLoop: GoalLoop): void {
+  goalLoop.addGoal({
+    id: 'nightly-research',
+    type: 'research',
+    description: 'Research new AI papers',
+    priority: 'normal',
+    trigger: 'time',
+    schedule: {
+      nextRun: new Date(Date.now() + 60000), // Start in 1 minute
+      interval: 24 * 60 * 60 * 1000, // Daily
+    },
+    task: {
+      type: 'research',
+      config: { topic: 'AI agents', depth: 'deep', sources: 20 },
+      timeout: 30 * 60 * 1000,
+    },
+    maxRetries: 3,
+  });
+
+  goalLoop.on('goalProgress', ({ goal, completed, total, message }) => {
+    console.log(`[${goal.id}] ${completed}/${total} ${message ?? ''}`);
+  });
+}
+
 /**
  * Helper: Extract optimization target from context
  */
@@ -2,11 +2,50 @@
  * Tests for Parallel Orchestrator
  */
 
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import { ParallelOrchestrator, type WorkerTask } from './parallel-orchestrator';
 
+// Minimal worker: completes each task after `config.delay` ms, echoing its handler modules,
+// and stops on cancel unless `config.ignoreCancel` is set
+const ECHO_WORKER = `
+import { parentPort, workerData } from 'node:worker_threads';
+const running = new Map();
+parentPort.on('message', (message) => {
+  if (message.type === 'cancel') {
+    const entry = running.get(message.taskId);
+    if (!entry || entry.ignoreCancel) return;
+    clearTimeout(entry.timer);
+    running.delete(message.taskId);
+    parentPort.postMessage({ type: 'cancelled', data: { taskId: message.taskId } });
+    return;
+  }
+  if (message.type !== 'execute') return;
+  const { id, description, config } = message.task;
+  const timer = setTimeout(() => {
+    running.delete(id);
+    parentPort.postMessage({ type: 'complete', data: { result: { description, handlers: workerData.handlers }, duration: config.delay ?? 0 } });
+  }, config.delay ?? 0);
+  running.set(id, { timer, ignoreCancel: config.ignoreCancel });
+});
+`;
+
 describe('ParallelOrchestrator', () => {
   let orchestrator: ParallelOrchestrator;
+  let scriptDir: string;
+  let workerScriptPath: string;
+
+  beforeAll(async () => {
+    scriptDir = await fs.mkdtemp(path.join(os.tmpdir(), 'orchestrator-test-'));
+    workerScriptPath = path.join(scriptDir, 'echo-worker.mjs');
+    await fs.writeFile(workerScriptPath, ECHO_WORKER);
+  });
+
+  afterAll(async () => {
+    await fs.rm(scriptDir, { recursive: true, force: true });
+  });
 
   beforeEach(async () => {
     orchestrator = new ParallelOrchestrator({
@@ -172,6 +211,27 @@ describe('ParallelOrchestrator', () => {
       expect(events.length).toBeGreaterThan(0);
       expect(events[0].id).toMatch(/^worker_/);
     });
+
+    it('should not give an idle worker two concurrent tasks', async () => {
+      const single = new ParallelOrchestrator({ maxWorkers: 1, enableLogging: false, workerScriptPath });
+      await single.initialize();
+
+      const run = (description: string) => new Promise<string>((resolve) => {
+        single.submitTask({
+          type: 'monitor',
+          description,
+          priority: 1,
+          config: { delay: 20 },
+          onComplete: (result) => resolve(result.data.description),
+        });
+      });
+
+      await run('warm-up');
+      expect(await Promise.all([run('first'), run('second')])).toEqual(['first', 'second']);
+      expect(single.getWorkers()).toHaveLength(1);
+
+      await single.shutdown();
+    });
   });
 
   describe('Task Execution', () => {
@@ -397,6 +457,276 @@ describe('ParallelOrchestrator', () => {
     });
   });
 
+  describe('Priority Queue', () => {
+    // Run tasks on a single worker and return descriptions in start order
+    async function runInOrder(
+      queue: ParallelOrchestrator,
+      tasks: Array<{ description: string; priority: number; delay?: number; waitBefore?: number }>
+    ): Promise<string[]> {
+      const started: string[] = [];
+      queue.on('taskStarted', (task: WorkerTask) => started.push(task.description));
+
+      const completed = new Promise<void>((resolve) => {
+        let count = 0;
+        queue.on('taskCompleted', () => {
+          if (++count === tasks.length) resolve();
+        });
+      });
+
+      for (const { description, priority, delay, waitBefore } of tasks) {
+        if (waitBefore) await new Promise(resolve => setTimeout(resolve, waitBefore));
+        await queue.submitTask({ type: 'monitor', description, priority, config: { delay: delay ?? 10 } });
+      }
+
+      await completed;
+      return started;
+    }
+
+    it('should run higher priorities first, FIFO within a priority', async () => {
+      const queue = new ParallelOrchestrator({ maxWorkers: 1, enableLogging: false, workerScriptPath });
+      await queue.initialize();
+
+      const statuses: Array<Record<number, number>> = [];
+      queue.on('taskQueued', () => statuses.push(queue.getStatus().queuedByPriority));
+
+      const started = await runInOrder(queue, [
+        { description: 'first', priority: 1, delay: 100 },
+        { description: 'low-1', priority: 1 },
+        { description: 'high-1', priority: 5 },
+        { description: 'low-2', priority: 1 },
+        { description: 'high-2', priority: 5 },
+      ]);
+
+      expect(started).toEqual(['first', 'high-1', 'high-2', 'low-1', 'low-2']);
+      expect(statuses.at(-1)).toEqual({ 1: 2, 5: 2 });
+      expect(queue.getStatus().queuedByPriority).toEqual({});
+
+      await queue.shutdown();
+    });
+
+    it('should age waiting tasks up to maxBoost', async () => {
+      const tasks = [
+        { description: 'first', priority: 1, delay: 200 },
+        { description: 'old-low', priority: 1 },
+        { description: 'new-high', priority: 3, waitBefore: 100 },
+      ];
+
+      const aged = new ParallelOrchestrator({
+        maxWorkers: 1,
+        enableLogging: false,
+        workerScriptPath,
+        priorityAging: { interval: 20 },
+      });
+      await aged.initialize();
+      expect(await runInOrder(aged, tasks)).toEqual(['first', 'old-low', 'new-high']);
+      await aged.shutdown();
+
+      const capped = new ParallelOrchestrator({
+        maxWorkers: 1,
+        enableLogging: false,
+        workerScriptPath,
+        priorityAging: { interval: 20, maxBoost: 1 },
+      });
+      await capped.initialize();
+      expect(await runInOrder(capped, tasks)).toEqual(['first', 'new-high', 'old-low']);
+      await capped.shutdown();
+    });
+  });
+
+  describe('Task Handlers', () => {
+    it('should reject task types without a handler', async () => {
+      const registry = new ParallelOrchestrator({
+        enableLogging: false,
+        taskHandlers: { translate: './handlers/translate.js' },
+      });
+
+      expect(registry.getTaskTypes()).toEqual(['monitor', 'research', 'learn', 'optimize', 'analyze', 'translate']);
+      expect(registry.hasTaskType('translate')).toBe(true);
+      expect(registry.hasTaskType('toString')).toBe(false);
+
+      await expect(
+        registry.submitTask({ type: 'summarize', description: 'Unknown', priority: 1, config: {} })
+      ).rejects.toThrow('Unknown task type: summarize');
+      expect(registry.getStatus().queuedTasks).toBe(0);
+
+      await registry.shutdown();
+    });
+
+    it('should pass resolved handler modules to workers', async () => {
+      const registry = new ParallelOrchestrator({
+        enableLogging: false,
+        workerScriptPath,
+        taskHandlers: { translate: './handlers/translate.js' },
+      });
+      await registry.initialize();
+
+      const result = await new Promise<any>((resolve, reject) => {
+        registry.submitTask({
+          type: 'translate',
+          description: 'Translate notes',
+          priority: 1,
+          config: {},
+          onComplete: resolve,
+          onError: reject,
+        });
+      });
+
+      expect(result.data.handlers).toEqual({ translate: path.resolve('./handlers/translate.js') });
+
+      await registry.shutdown();
+    });
+  });
+
+  describe('Cancellation', () => {
+    const waitFor = (emitter: ParallelOrchestrator, event: string) =>
+      new Promise<any>(resolve => emitter.once(event, resolve));
+
+    it('should drop queued tasks', async () => {
+      const queue = new ParallelOrchestrator({ maxWorkers: 1, enableLogging: false, workerScriptPath });
+      await queue.initialize();
+      const started: string[] = [];
+      queue.on('taskStarted', (task: WorkerTask) => started.push(task.description));
+
+      const done = waitFor(queue, 'taskCompleted');
+      await queue.submitTask({ type: 'monitor', description: 'running', priority: 1, config: { delay: 100 } });
+      const errors: string[] = [];
+      const queuedId = await queue.submitTask({
+        type: 'monitor',
+        description: 'queued',
+        priority: 1,
+        config: {},
+        onError: (error) => errors.push(error.message),
+      });
+      const cancelled = waitFor(queue, 'taskCancelled');
+
+      expect(queue.cancelTask(queuedId, 'not needed')).toBe(true);
+      expect(await cancelled).toEqual({ taskId: queuedId, reason: 'not needed' });
+      expect(errors).toEqual(['Task cancelled: not needed']);
+      expect(queue.getTaskStatus(queuedId)).toBe('cancelled');
+      expect(queue.getResult(queuedId)?.error).toBe('Task cancelled: not needed');
+      expect(queue.cancelTask(queuedId)).toBe(false);
+
+      await done;
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(started).toEqual(['running']);
+
+      await queue.shutdown();
+    });
+
+    it('should cancel tasks still waiting for their worker', async () => {
+      const queue = new ParallelOrchestrator({ maxWorkers: 1, enableLogging: false, workerScriptPath });
+      await queue.initialize();
+      const started: string[] = [];
+      const errors: string[] = [];
+      queue.on('taskStarted', (task: WorkerTask) => started.push(task.description));
+
+      let dispatchingId = '';
+      queue.once('taskQueued', (task: WorkerTask) => { dispatchingId = task.id; });
+      const submitted = queue.submitTask({
+        type: 'monitor',
+        description: 'dispatching',
+        priority: 1,
+        config: {},
+        onError: (error) => errors.push(error.message),
+      });
+
+      expect(queue.cancelTask(dispatchingId)).toBe(true);
+      await submitted;
+      expect(errors).toEqual(['Task cancelled: cancelled']);
+      expect(queue.getTaskStatus(dispatchingId)).toBe('cancelled');
+
+      const done = waitFor(queue, 'taskCompleted');
+      const nextId = await queue.submitTask({ type: 'monitor', description: 'next', priority: 1, config: {} });
+      expect((await done).taskId).toBe(nextId);
+      expect(started).toEqual(['next']);
+
+      await queue.shutdown();
+    });
+
+    it('should stop running tasks cooperatively and reuse the worker', async () => {
+      const queue = new ParallelOrchestrator({ maxWorkers: 1, enableLogging: false, workerScriptPath });
+      await queue.initialize();
+      const terminated: string[] = [];
+      queue.on('workerTerminated', (workerId: string) => terminated.push(workerId));
+
+      const started = waitFor(queue, 'taskStarted');
+      const longId = await queue.submitTask({ type: 'monitor', description: 'long', priority: 1, config: { delay: 5000 } });
+      await started;
+      const nextId = await queue.submitTask({ type: 'monitor', description: 'next', priority: 1, config: {} });
+
+      const done = waitFor(queue, 'taskCompleted');
+      expect(queue.cancelTask(longId)).toBe(true);
+      expect(queue.getTaskStatus(longId)).toBe('cancelled');
+      expect((await done).taskId).toBe(nextId);
+
+      expect(terminated).toEqual([]);
+      expect(queue.getWorkers()).toHaveLength(1);
+
+      await queue.shutdown();
+    });
+
+    it('should call onError for running tasks that are cancelled or time out', async () => {
+      const queue = new ParallelOrchestrator({ maxWorkers: 2, enableLogging: false, workerScriptPath });
+      await queue.initialize();
+      const errors: Record<string, string> = {};
+      const submit = (description: string, timeout?: number) => queue.submitTask({
+        type: 'monitor',
+        description,
+        priority: 1,
+        config: { delay: 5000 },
+        timeout,
+        onError: (error) => { errors[description] = error.message; },
+      });
+
+      const started = waitFor(queue, 'taskStarted');
+      const cancelledId = await submit('cancelled');
+      await started;
+      const terminated = waitFor(queue, 'taskTerminated');
+      await submit('slow', 50);
+
+      queue.cancelTask(cancelledId, 'not needed');
+      await terminated;
+
+      expect(errors).toEqual({
+        cancelled: 'Task cancelled: not needed',
+        slow: 'Task terminated: timeout',
+      });
+
+      await queue.shutdown();
+    });
+
+    it('should replace a worker that ignores the cancellation', async () => {
+      const queue = new ParallelOrchestrator({
+        maxWorkers: 1,
+        enableLogging: false,
+        workerScriptPath,
+        cancelGracePeriod: 50,
+      });
+      await queue.initialize();
+
+      const started = waitFor(queue, 'taskStarted');
+      const stuckId = await queue.submitTask({
+        type: 'monitor',
+        description: 'stuck',
+        priority: 1,
+        config: { delay: 5000, ignoreCancel: true },
+      });
+      await started;
+      const [original] = queue.getWorkers();
+      const nextId = await queue.submitTask({ type: 'monitor', description: 'next', priority: 1, config: {} });
+
+      const terminated = waitFor(queue, 'workerTerminated');
+      const done = waitFor(queue, 'taskCompleted');
+      queue.cancelTask(stuckId);
+
+      expect(await terminated).toBe(original.id);
+      expect((await done).taskId).toBe(nextId);
+      expect(queue.getWorkers().map(w => w.id)).not.toContain(original.id);
+
+      await queue.shutdown();
+    });
+  });
+
   describe('Shutdown', () => {
     it('should shutdown cleanly', async () => {
       await orchestrator.submitTask({
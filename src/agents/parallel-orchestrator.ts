@@ -12,15 +12,20 @@ import { Worker } from 'node:worker_threads';
 import { EventEmitter } from 'node:events';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { MinHeap } from './min-heap.js';
 
-export type WorkerTaskType = 'monitor' | 'research' | 'learn' | 'optimize' | 'analyze';
+/** Task types every worker handles without configuration */
+export const BUILTIN_TASK_TYPES = ['monitor', 'research', 'learn', 'optimize', 'analyze'] as const;
+
+export type BuiltinWorkerTaskType = typeof BUILTIN_TASK_TYPES[number];
+export type WorkerTaskType = BuiltinWorkerTaskType | (string & {}); // built-in or registered in taskHandlers
 export type WorkerStatus = 'idle' | 'running' | 'paused' | 'terminated' | 'error';
 
 export interface WorkerTask {
   id: string;
   type: WorkerTaskType;
   description: string;
-  priority: number;
+  priority: number; // higher runs first (0-10 by convention)
   
   // Task configuration
   config: Record<string, any>;
@@ -44,11 +49,34 @@ export interface WorkerProgress {
   data?: any;
 }
 
+/**
+ * Task as delivered to a handler inside the worker
+ */
+export interface WorkerTaskPayload {
+  id: string;
+  type: WorkerTaskType;
+  description: string;
+  config: Record<string, any>;
+}
+
+export interface WorkerTaskContext {
+  signal: AbortSignal; // aborted by ParallelOrchestrator.cancelTask() and timeouts
+  reportProgress(completed: number, total: number, message?: string): void;
+}
+
+/**
+ * Task handler, exported by a handler module as `default` (or `handler`)
+ *
+ * The resolved value becomes `WorkerResult.data`; a rejection fails the task.
+ */
+export type WorkerTaskHandler = (task: WorkerTaskPayload, context: WorkerTaskContext) => Promise<any>;
+
 export interface WorkerResult {
   taskId: string;
   success: boolean;
   data?: any;
   error?: string;
+  cancelled?: boolean; // stopped by cancelTask()
   duration: number; // milliseconds
 }
 
@@ -63,6 +91,14 @@ export interface WorkerInfo {
   lastActivity?: Date;
 }
 
+/**
+ * Priority aging: queued tasks gain one priority level per `interval` waited
+ */
+export interface WorkerPriorityAging {
+  interval: number; // milliseconds per level
+  maxBoost?: number; // levels (default: unlimited)
+}
+
 export interface ParallelOrchestratorConfig {
   maxWorkers: number;
   workerScriptPath?: string;
@@ -70,6 +106,18 @@ export interface ParallelOrchestratorConfig {
   idleTimeout: number; // milliseconds
   taskQueueSize: number;
   enableLogging: boolean;
+  priorityAging?: WorkerPriorityAging; // off by default
+  taskHandlers?: Record<string, string>; // task type -> handler module path, loaded by each worker
+  cancelGracePeriod: number; // ms a cancelled handler may keep running before its worker is replaced
+}
+
+/**
+ * Task waiting in the queue
+ */
+interface QueuedTask {
+  task: WorkerTask;
+  sequence: number; // submission order, breaks priority ties
+  queuedAt: number; // epoch ms
 }
 
 /**
@@ -80,8 +128,11 @@ export interface ParallelOrchestratorConfig {
 export class ParallelOrchestrator extends EventEmitter {
   private config: ParallelOrchestratorConfig;
   private workers: Map<string, WorkerInstance> = new Map();
-  private taskQueue: WorkerTask[] = [];
+  private taskQueue = new MinHeap<QueuedTask>((a, b) => this.compareQueued(a, b));
+  private queueSequence = 0;
+  private queueTime = Date.now(); // reference time for aged priorities
   private activeTasks: Map<string, WorkerTask> = new Map();
+  private dispatchingTasks: Set<string> = new Set(); // active, not yet sent to their worker
   private results: Map<string, WorkerResult> = new Map();
   private nextWorkerId = 1;
   
@@ -95,6 +146,11 @@ export class ParallelOrchestrator extends EventEmitter {
       idleTimeout: config.idleTimeout ?? 5 * 60 * 1000, // 5 minutes
       taskQueueSize: config.taskQueueSize ?? 100,
       enableLogging: config.enableLogging ?? true,
+      priorityAging: config.priorityAging,
+      taskHandlers: Object.fromEntries(
+        Object.entries(config.taskHandlers ?? {}).map(([type, modulePath]) => [type, path.resolve(modulePath)])
+      ),
+      cancelGracePeriod: config.cancelGracePeriod ?? 5000,
     };
   }
 
@@ -110,7 +166,11 @@ export class ParallelOrchestrator extends EventEmitter {
    * Submit task for parallel execution
    */
   async submitTask(task: Omit<WorkerTask, 'id'>): Promise<string> {
-    if (this.taskQueue.length >= this.config.taskQueueSize) {
+    if (!this.hasTaskType(task.type)) {
+      throw new Error(`Unknown task type: ${task.type} (register a handler in config.taskHandlers)`);
+    }
+
+    if (this.taskQueue.size >= this.config.taskQueueSize) {
       throw new Error(`Task queue full (${this.config.taskQueueSize})`);
     }
 
@@ -120,7 +180,7 @@ export class ParallelOrchestrator extends EventEmitter {
       id: taskId,
     };
 
-    this.taskQueue.push(fullTask);
+    this.enqueue(fullTask);
     this.emit('taskQueued', fullTask);
     this.log(`Task queued: ${taskId} (${task.description})`);
 
@@ -130,26 +190,89 @@ export class ParallelOrchestrator extends EventEmitter {
     return taskId;
   }
 
+  /**
+   * Task types workers can run: built-ins plus registered handlers
+   */
+  getTaskTypes(): WorkerTaskType[] {
+    return [...new Set<WorkerTaskType>([...BUILTIN_TASK_TYPES, ...Object.keys(this.config.taskHandlers!)])];
+  }
+
+  /**
+   * Check if a task type is built in or has a registered handler
+   */
+  hasTaskType(type: string): boolean {
+    return (BUILTIN_TASK_TYPES as readonly string[]).includes(type) || Object.hasOwn(this.config.taskHandlers!, type);
+  }
+
   /**
    * Process task queue
    */
   private async processQueue(): Promise<void> {
-    while (this.taskQueue.length > 0 && this.canSpawnWorker()) {
-      const task = this.taskQueue.shift()!;
+    while (this.taskQueue.size > 0 && this.canSpawnWorker()) {
+      const task = this.dequeue()!;
       await this.executeTask(task);
     }
   }
 
+  /**
+   * Add a task to the priority queue
+   */
+  private enqueue(task: WorkerTask): void {
+    this.taskQueue.push({
+      task,
+      sequence: this.queueSequence++,
+      queuedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Take the highest-priority task (oldest first within a priority)
+   */
+  private dequeue(): WorkerTask | undefined {
+    if (this.config.priorityAging) {
+      // Aged priorities grow while tasks wait, so re-sort before each pick
+      this.queueTime = Date.now();
+      this.taskQueue.reorder();
+    }
+
+    return this.taskQueue.pop()?.task;
+  }
+
+  /**
+   * Queue order: higher effective priority first, then submission order
+   */
+  private compareQueued(a: QueuedTask, b: QueuedTask): number {
+    return this.getEffectivePriority(b) - this.getEffectivePriority(a) || a.sequence - b.sequence;
+  }
+
+  /**
+   * Task priority plus the aging boost earned while queued
+   */
+  private getEffectivePriority(entry: QueuedTask): number {
+    const aging = this.config.priorityAging;
+    if (!aging) return entry.task.priority;
+
+    const boost = Math.max(0, (this.queueTime - entry.queuedAt) / aging.interval);
+    return entry.task.priority + Math.min(aging.maxBoost ?? Infinity, boost);
+  }
+
   /**
    * Execute task on worker
    */
   private async executeTask(task: WorkerTask): Promise<void> {
-    const worker = await this.getOrCreateWorker(task.type);
-    
+    // Active before the await, so cancelTask() can reach it
     this.activeTasks.set(task.id, task);
-    worker.currentTask = task.id;
-    worker.status = 'running';
-    worker.lastActivity = new Date();
+    this.dispatchingTasks.add(task.id);
+    const worker = await this.getOrCreateWorker(task);
+    this.dispatchingTasks.delete(task.id);
+
+    if (!this.activeTasks.has(task.id)) {
+      // Cancelled while waiting for the worker
+      worker.currentTask = undefined;
+      worker.status = 'idle';
+      this.processQueue();
+      return;
+    }
 
     this.emit('taskStarted', task);
     this.log(`Task started: ${task.id} on worker ${worker.id}`);
@@ -176,54 +299,58 @@ export class ParallelOrchestrator extends EventEmitter {
   }
 
   /**
-   * Get or create worker
+   * Get or create a worker and claim it for a task
+   *
+   * Available workers are claimed before the first await, so overlapping
+   * processQueue() calls never hand one worker two tasks.
    */
-  private async getOrCreateWorker(type: WorkerTaskType): Promise<WorkerInstance> {
-    // Find idle worker of same type
-    for (const worker of this.workers.values()) {
-      if (worker.type === type && worker.status === 'idle') {
-        return worker;
-      }
-    }
-
-    // Find any idle worker
-    for (const worker of this.workers.values()) {
-      if (worker.status === 'idle') {
-        worker.type = type;
-        return worker;
-      }
-    }
-
-    // Create new worker if under limit
-    if (this.workers.size < this.config.maxWorkers) {
-      return await this.createWorker(type);
-    }
+  private async getOrCreateWorker(task: WorkerTask): Promise<WorkerInstance> {
+    const worker = this.findIdleWorker(task.type)
+      ?? (this.workers.size < this.config.maxWorkers ? this.createWorker(task.type) : undefined);
+    if (worker) return this.claimWorker(worker, task);
 
     // Wait for worker to become available
     return new Promise((resolve) => {
       const checkInterval = setInterval(() => {
-        for (const worker of this.workers.values()) {
-          if (worker.status === 'idle') {
-            clearInterval(checkInterval);
-            worker.type = type;
-            resolve(worker);
-            return;
-          }
+        const idle = this.findIdleWorker(task.type);
+        if (idle) {
+          clearInterval(checkInterval);
+          resolve(this.claimWorker(idle, task));
         }
       }, 100);
     });
   }
 
+  /**
+   * Find an idle worker, preferring one of the same type
+   */
+  private findIdleWorker(type: WorkerTaskType): WorkerInstance | undefined {
+    const idle = Array.from(this.workers.values()).filter(w => w.status === 'idle');
+    return idle.find(w => w.type === type) ?? idle[0];
+  }
+
+  /**
+   * Mark a worker as running a task
+   */
+  private claimWorker(worker: WorkerInstance, task: WorkerTask): WorkerInstance {
+    worker.type = task.type;
+    worker.currentTask = task.id;
+    worker.status = 'running';
+    worker.lastActivity = new Date();
+    return worker;
+  }
+
   /**
    * Create new worker
    */
-  private async createWorker(type: WorkerTaskType): Promise<WorkerInstance> {
+  private createWorker(type: WorkerTaskType): WorkerInstance {
     const workerId = `worker_${this.nextWorkerId++}`;
 
     const worker = new Worker(this.config.workerScriptPath!, {
       workerData: {
         workerId,
         type,
+        handlers: this.config.taskHandlers,
       },
     });
 
@@ -281,6 +408,10 @@ export class ParallelOrchestrator extends EventEmitter {
         this.handleTaskError(worker, message.error);
         break;
 
+      case 'cancelled':
+        this.handleCancelled(worker);
+        break;
+
       default:
         this.log(`Unknown message type from worker ${workerId}: ${message.type}`);
     }
@@ -313,7 +444,10 @@ export class ParallelOrchestrator extends EventEmitter {
    */
   private handleComplete(worker: WorkerInstance, data: any): void {
     const task = worker.currentTask ? this.activeTasks.get(worker.currentTask) : undefined;
-    if (!task) return;
+    if (!task) {
+      this.handleCancelled(worker); // finished before it saw the cancellation
+      return;
+    }
 
     const result: WorkerResult = {
       taskId: task.id,
@@ -350,7 +484,10 @@ export class ParallelOrchestrator extends EventEmitter {
    */
   private handleTaskError(worker: WorkerInstance, error: any): void {
     const task = worker.currentTask ? this.activeTasks.get(worker.currentTask) : undefined;
-    if (!task) return;
+    if (!task) {
+      this.handleCancelled(worker);
+      return;
+    }
 
     worker.errors++;
 
@@ -377,7 +514,7 @@ export class ParallelOrchestrator extends EventEmitter {
     // Retry if configured
     if (task.retryOnError && (!task.maxRetries || worker.errors < task.maxRetries)) {
       this.log(`Retrying task: ${task.id}`);
-      this.taskQueue.unshift(task); // Re-queue at front
+      this.enqueue(task); // Back of its priority level
     }
 
     // Process next task
@@ -418,37 +555,116 @@ export class ParallelOrchestrator extends EventEmitter {
     }
   }
 
+  /**
+   * Cancel a queued or running task
+   *
+   * Queued tasks are dropped. Running tasks are sent a cancel message that
+   * aborts the handler's signal; a worker still busy after `cancelGracePeriod`
+   * is terminated and replaced. Either way the task's `onError` is called.
+   * Returns false for unknown or finished tasks.
+   */
+  cancelTask(taskId: string, reason = 'cancelled'): boolean {
+    const queued = this.taskQueue.toArray().find(entry => entry.task.id === taskId)?.task;
+    if (queued) {
+      this.taskQueue.remove(entry => entry.task === queued);
+    }
+    const task = queued ?? this.stopRunningTask(taskId, reason);
+    if (!task) return false;
+
+    const error = `Task cancelled: ${reason}`;
+    this.results.set(taskId, {
+      taskId,
+      success: false,
+      error,
+      cancelled: true,
+      duration: 0,
+    });
+
+    this.emit('taskCancelled', { taskId, reason });
+    this.log(`Task cancelled: ${taskId} (${reason})`);
+
+    if (task.onError) {
+      task.onError(new Error(error));
+    }
+
+    return true;
+  }
+
   /**
    * Terminate task
    */
   private terminateTask(taskId: string, reason: string): void {
-    const task = this.activeTasks.get(taskId);
+    const task = this.stopRunningTask(taskId, reason);
     if (!task) return;
 
-    // Find worker running this task
+    const error = `Task terminated: ${reason}`;
+    this.results.set(taskId, {
+      taskId,
+      success: false,
+      error,
+      duration: 0,
+    });
+
+    this.emit('taskTerminated', { taskId, reason });
+    this.log(`Task terminated: ${taskId} (${reason})`);
+
+    if (task.onError) {
+      task.onError(new Error(error));
+    }
+  }
+
+  /**
+   * Ask the worker running a task to stop it
+   *
+   * The worker stays busy until it reports back (see handleCancelled); a
+   * task still waiting for its worker is never sent. Returns the stopped
+   * task, or undefined if it was not running.
+   */
+  private stopRunningTask(taskId: string, reason: string): WorkerTask | undefined {
+    const task = this.activeTasks.get(taskId);
+    if (!task) return undefined;
+
+    this.activeTasks.delete(taskId);
+    if (this.dispatchingTasks.has(taskId)) return task;
+
     for (const worker of this.workers.values()) {
       if (worker.currentTask === taskId) {
-        worker.instance.postMessage({ type: 'terminate', taskId });
-        
-        const result: WorkerResult = {
-          taskId,
-          success: false,
-          error: `Task terminated: ${reason}`,
-          duration: 0,
-        };
-
-        this.results.set(taskId, result);
-        this.activeTasks.delete(taskId);
-        
-        worker.currentTask = undefined;
-        worker.status = 'idle';
-
-        this.emit('taskTerminated', { taskId, reason });
-        this.log(`Task terminated: ${taskId} (${reason})`);
-        
+        worker.instance.postMessage({ type: 'cancel', taskId, reason });
+        worker.cancelTimer = setTimeout(() => this.replaceWorker(worker), this.config.cancelGracePeriod);
         break;
       }
     }
+
+    return task;
+  }
+
+  /**
+   * Handle a worker that stopped its cancelled task
+   */
+  private handleCancelled(worker: WorkerInstance): void {
+    if (!worker.cancelTimer) return;
+
+    clearTimeout(worker.cancelTimer);
+    worker.cancelTimer = undefined;
+    worker.currentTask = undefined;
+    worker.status = 'idle';
+
+    // Process next task in queue
+    this.processQueue();
+  }
+
+  /**
+   * Replace a worker that ignored a cancellation
+   */
+  private replaceWorker(worker: WorkerInstance): void {
+    if (this.workers.get(worker.id) !== worker) return;
+
+    this.log(`Worker ${worker.id} did not stop task ${worker.currentTask} within ${this.config.cancelGracePeriod}ms`);
+    worker.cancelTimer = undefined;
+    this.terminateWorker(worker.id);
+
+    this.createWorker(worker.type);
+    this.processQueue();
   }
 
   /**
@@ -456,7 +672,7 @@ export class ParallelOrchestrator extends EventEmitter {
    */
   private considerScaleDown(worker: WorkerInstance): void {
     if (this.workers.size <= 1) return; // Keep at least one
-    if (this.taskQueue.length > 0) return; // Still have work
+    if (this.taskQueue.size > 0) return; // Still have work
 
     const idleTime = Date.now() - worker.lastActivity!.getTime();
     if (idleTime > this.config.idleTimeout) {
@@ -489,12 +705,13 @@ export class ParallelOrchestrator extends EventEmitter {
   /**
    * Get task status
    */
-  getTaskStatus(taskId: string): 'queued' | 'running' | 'completed' | 'error' | 'unknown' {
-    if (this.taskQueue.some(t => t.id === taskId)) return 'queued';
+  getTaskStatus(taskId: string): 'queued' | 'running' | 'completed' | 'cancelled' | 'error' | 'unknown' {
+    if (this.taskQueue.toArray().some(entry => entry.task.id === taskId)) return 'queued';
     if (this.activeTasks.has(taskId)) return 'running';
     
     const result = this.results.get(taskId);
     if (result) {
+      if (result.cancelled) return 'cancelled';
       return result.success ? 'completed' : 'error';
     }
 
@@ -524,6 +741,7 @@ export class ParallelOrchestrator extends EventEmitter {
     workers: number;
     activeWorkers: number;
     queuedTasks: number;
+    queuedByPriority: Record<number, number>; // queue depth per task priority
     activeTasks: number;
     completedTasks: number;
     config: ParallelOrchestratorConfig;
@@ -531,7 +749,8 @@ export class ParallelOrchestrator extends EventEmitter {
     return {
       workers: this.workers.size,
       activeWorkers: Array.from(this.workers.values()).filter(w => w.status === 'running').length,
-      queuedTasks: this.taskQueue.length,
+      queuedTasks: this.taskQueue.size,
+      queuedByPriority: this.getQueueDepthByPriority(),
       activeTasks: this.activeTasks.size,
       completedTasks: this.results.size,
       config: this.config,
@@ -539,10 +758,24 @@ export class ParallelOrchestrator extends EventEmitter {
   }
 
   /**
-   * Check if can spawn worker
+   * Queued task count per priority level (aging not included)
+   */
+  private getQueueDepthByPriority(): Record<number, number> {
+    const depth: Record<number, number> = {};
+
+    for (const { task } of this.taskQueue.toArray()) {
+      depth[task.priority] = (depth[task.priority] ?? 0) + 1;
+    }
+
+    return depth;
+  }
+
+  /**
+   * Check if a worker is free or can be spawned
    */
   private canSpawnWorker(): boolean {
-    return this.workers.size < this.config.maxWorkers;
+    if (this.workers.size < this.config.maxWorkers) return true;
+    return Array.from(this.workers.values()).some(w => w.status === 'idle');
   }
 
   /**
@@ -577,12 +810,14 @@ export class ParallelOrchestrator extends EventEmitter {
 
     // Terminate all workers
     for (const worker of this.workers.values()) {
+      clearTimeout(worker.cancelTimer);
       await worker.instance.terminate();
     }
 
     this.workers.clear();
-    this.taskQueue = [];
+    this.taskQueue.clear();
     this.activeTasks.clear();
+    this.dispatchingTasks.clear();
 
     this.emit('shutdown');
     this.log('Shutdown complete');
@@ -598,6 +833,7 @@ interface WorkerInstance {
   status: WorkerStatus;
   instance: Worker;
   currentTask?: string;
+  cancelTimer?: NodeJS.Timeout; // grace period of a cancelled current task
   tasksCompleted: number;
   errors: number;
   startTime: Date;
@@ -2,23 +2,56 @@
  * Parallel Worker - Background thread for task execution
  * 
  * Executes tasks in isolated worker thread without blocking main agent.
+ * Handlers come from a registry: the built-in task types, plus the handler
+ * modules the orchestrator passes in `workerData.handlers` (loaded on startup,
+ * overriding built-ins of the same type). A `cancel` message aborts the
+ * running handler's signal instead of exiting the worker.
  * 
  * @author Gucci (guccichong.888@gmail.com)
  * @date 2026-02-10
  */
 
 import { parentPort, workerData } from 'node:worker_threads';
-import type { WorkerTaskType } from './parallel-orchestrator.js';
+import { pathToFileURL } from 'node:url';
+import type { WorkerTaskContext, WorkerTaskHandler, WorkerTaskPayload } from './parallel-orchestrator.js';
 
 interface WorkerMessage {
-  type: 'execute' | 'terminate';
-  task?: {
-    id: string;
-    type: WorkerTaskType;
-    description: string;
-    config: Record<string, any>;
-  };
+  type: 'execute' | 'cancel';
+  task?: WorkerTaskPayload;
   taskId?: string;
+  reason?: string;
+}
+
+/**
+ * Handler registry, keyed by task type
+ */
+const handlers = new Map<string, WorkerTaskHandler>([
+  ['monitor', executeMonitorTask],
+  ['research', executeResearchTask],
+  ['learn', executeLearnTask],
+  ['optimize', executeOptimizeTask],
+  ['analyze', executeAnalyzeTask],
+]);
+
+/**
+ * Abort controllers of running tasks, keyed by task id
+ */
+const running = new Map<string, AbortController>();
+
+/**
+ * Load registered handler modules (task type -> module path)
+ */
+async function loadHandlers(modules: Record<string, string> = {}): Promise<void> {
+  for (const [type, modulePath] of Object.entries(modules)) {
+    const module = await import(pathToFileURL(modulePath).href);
+    const handler = module.default ?? module.handler;
+
+    if (typeof handler !== 'function') {
+      throw new Error(`Handler module for "${type}" must export a function: ${modulePath}`);
+    }
+
+    handlers.set(type, handler);
+  }
 }
 
 /**
@@ -31,6 +64,9 @@ async function main() {
 
   const { workerId, type } = workerData;
 
+  // Messages posted meanwhile wait in the port until the listener is attached
+  await loadHandlers(workerData.handlers);
+
   console.log(`[Worker ${workerId}] Started (type: ${type})`);
 
   // Listen for tasks
@@ -42,9 +78,9 @@ async function main() {
         }
         break;
 
-      case 'terminate':
-        console.log(`[Worker ${workerId}] Terminating task ${message.taskId}`);
-        process.exit(0);
+      case 'cancel':
+        console.log(`[Worker ${workerId}] Cancelling task ${message.taskId}`);
+        running.get(message.taskId!)?.abort(new Error(`Task cancelled: ${message.reason ?? 'cancelled'}`));
         break;
     }
   });
@@ -53,13 +89,10 @@ async function main() {
 /**
  * Execute task
  */
-async function executeTask(task: {
-  id: string;
-  type: WorkerTaskType;
-  description: string;
-  config: Record<string, any>;
-}): Promise<void> {
+async function executeTask(task: WorkerTaskPayload): Promise<void> {
   const startTime = Date.now();
+  const controller = new AbortController();
+  running.set(task.id, controller);
 
   try {
     console.log(`[Worker] Executing task: ${task.id} (${task.description})`);
@@ -67,49 +100,42 @@ async function executeTask(task: {
     // Report progress
     reportProgress(task.id, 0, 100, 'Starting...');
 
-    // Execute based on task type
-    let result: any;
-
-    switch (task.type) {
-      case 'monitor':
-        result = await executeMonitorTask(task);
-        break;
-
-      case 'research':
-        result = await executeResearchTask(task);
-        break;
-
-      case 'learn':
-        result = await executeLearnTask(task);
-        break;
-
-      case 'optimize':
-        result = await executeOptimizeTask(task);
-        break;
-
-      case 'analyze':
-        result = await executeAnalyzeTask(task);
-        break;
-
-      default:
-        throw new Error(`Unknown task type: ${task.type}`);
+    // Execute with the handler registered for the task type
+    const handler = handlers.get(task.type);
+    if (!handler) {
+      throw new Error(`Unknown task type: ${task.type}`);
     }
 
+    const result = await handler(task, {
+      signal: controller.signal,
+      reportProgress: (completed, total, message) => reportProgress(task.id, completed, total, message),
+    });
+
     const duration = Date.now() - startTime;
 
-    // Report completion
-    reportComplete(task.id, result, duration);
+    // Report completion (a cancelled task reports cancellation, even if it finished)
+    if (controller.signal.aborted) {
+      reportCancelled(task.id);
+    } else {
+      reportComplete(task.id, result, duration);
+    }
 
   } catch (error) {
-    console.error(`[Worker] Task error: ${task.id}`, error);
-    reportError(task.id, error as Error);
+    if (controller.signal.aborted) {
+      reportCancelled(task.id);
+    } else {
+      console.error(`[Worker] Task error: ${task.id}`, error);
+      reportError(task.id, error as Error);
+    }
+  } finally {
+    running.delete(task.id);
   }
 }
 
 /**
  * Execute monitor task
  */
-async function executeMonitorTask(task: any): Promise<any> {
+async function executeMonitorTask(task: any, { signal }: WorkerTaskContext): Promise<any> {
   const { target, interval = 1000, duration = 10000 } = task.config;
 
   const results: any[] = [];
@@ -131,7 +157,7 @@ async function executeMonitorTask(task: any): Promise<any> {
 
     reportProgress(task.id, i + 1, iterations, `Monitoring ${target}...`);
 
-    await sleep(interval);
+    await sleep(interval, signal);
   }
 
   return {
@@ -144,7 +170,7 @@ async function executeMonitorTask(task: any): Promise<any> {
 /**
  * Execute research task
  */
-async function executeResearchTask(task: any): Promise<any> {
+async function executeResearchTask(task: any, { signal }: WorkerTaskContext): Promise<any> {
   const { topic, depth = 'medium', sources = 5 } = task.config;
 
   reportProgress(task.id, 0, sources, `Researching: ${topic}`);
@@ -153,7 +179,7 @@ async function executeResearchTask(task: any): Promise<any> {
 
   for (let i = 0; i < sources; i++) {
     // Simulate research
-    await sleep(500);
+    await sleep(500, signal);
 
     const finding = {
       source: `Source ${i + 1}`,
@@ -178,7 +204,7 @@ async function executeResearchTask(task: any): Promise<any> {
 /**
  * Execute learn task
  */
-async function executeLearnTask(task: any): Promise<any> {
+async function executeLearnTask(task: any, { signal }: WorkerTaskContext): Promise<any> {
   const { subject, duration = 5000 } = task.config;
 
   reportProgress(task.id, 0, 100, `Learning: ${subject}`);
@@ -187,7 +213,7 @@ async function executeLearnTask(task: any): Promise<any> {
   const stages = ['reading', 'understanding', 'practicing', 'mastering'];
 
   for (let i = 0; i < stages.length; i++) {
-    await sleep(duration / stages.length);
+    await sleep(duration / stages.length, signal);
     reportProgress(task.id, ((i + 1) / stages.length) * 100, 100, `Stage: ${stages[i]}`);
   }
 
@@ -206,7 +232,7 @@ async function executeLearnTask(task: any): Promise<any> {
 /**
  * Execute optimize task
  */
-async function executeOptimizeTask(task: any): Promise<any> {
+async function executeOptimizeTask(task: any, { signal }: WorkerTaskContext): Promise<any> {
   const { target, metric = 'performance', iterations = 5 } = task.config;
 
   reportProgress(task.id, 0, iterations, `Optimizing: ${target}`);
@@ -215,7 +241,7 @@ async function executeOptimizeTask(task: any): Promise<any> {
   const improvements: any[] = [];
 
   for (let i = 0; i < iterations; i++) {
-    await sleep(300);
+    await sleep(300, signal);
 
     const improvement = Math.random() * 20 + 5; // 5-25% improvement
     currentValue *= (1 + improvement / 100);
@@ -244,16 +270,16 @@ async function executeOptimizeTask(task: any): Promise<any> {
 /**
  * Execute analyze task
  */
-async function executeAnalyzeTask(task: any): Promise<any> {
+async function executeAnalyzeTask(task: any, { signal }: WorkerTaskContext): Promise<any> {
   const { data, analysisType = 'statistical' } = task.config;
 
   reportProgress(task.id, 0, 100, 'Analyzing data...');
 
   // Simulate analysis
-  await sleep(1000);
+  await sleep(1000, signal);
   reportProgress(task.id, 50, 100, 'Computing statistics...');
 
-  await sleep(500);
+  await sleep(500, signal);
   reportProgress(task.id, 100, 100, 'Analysis complete');
 
   return {
@@ -306,6 +332,18 @@ function reportComplete(taskId: string, result: any, duration: number): void {
   });
 }
 
+/**
+ * Report that a cancelled task has stopped
+ */
+function reportCancelled(taskId: string): void {
+  if (!parentPort) return;
+
+  parentPort.postMessage({
+    type: 'cancelled',
+    data: { taskId },
+  });
+}
+
 /**
  * Report error to parent
  */
@@ -323,10 +361,23 @@ function reportError(taskId: string, error: Error): void {
 }
 
 /**
- * Sleep helper
+ * Sleep helper (rejects early when the signal aborts)
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 // Start worker